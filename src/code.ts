@@ -4,23 +4,36 @@ figma.showUI(__html__, { width: 420, height: 700 });
 console.log('UI shown');
 
 interface VariableData {
+  id: string;
   name: string;
   variableValue: any;
   variableType: string;
   resolvedDataType: VariableResolvedDataType;
   collection: string;
   mode: string;
+  aliasOf?: string; // id of the variable this mode's value points to, if it is an alias
+  scopes?: string[]; // Figma VariableScope list (GAP, CORNER_RADIUS, FONT_SIZE ...)
+  webName?: string;  // codeSyntax.WEB as a custom property name, used verbatim
 }
 
 interface CollectionData {
   name: string;
   modes: { modeId: string; name: string }[];
+  defaultMode: string;
   variables: VariableData[];
+  library?: string; // set for collections that come from a team library
 }
 
 // Scanned token interfaces
 interface ScannedTokens {
-  colors: { hex: string; count: number; usedAs: ('fill' | 'stroke' | 'text')[] }[];
+  colors: {
+    hex: string;
+    count: number;
+    usedAs: ('fill' | 'stroke' | 'text')[];
+    token?: string;           // name of the variable/style most of its bound usages point to
+    unbound?: number;         // usages with a raw hex value
+    unboundLayers?: string[]; // a few of those layers, for the report
+  }[];
   typography: {
     fontSize: number;
     fontFamily: string;
@@ -32,6 +45,7 @@ interface ScannedTokens {
   shadows: { type: string; offsetX: number; offsetY: number; blur: number; spread: number; color: string }[];
   gradients: { type: 'linear' | 'radial'; angle: number; stops: { color: string; position: number }[]; ellipseX?: number; ellipseY?: number; centerX?: number; centerY?: number }[];
   animations: { duration: number; easing: string }[];
+  scope?: string; // what was scanned, e.g. "Selection: Card, Header"
 }
 
 // Options for CSS generation — toggled by the UI checkboxes
@@ -48,6 +62,24 @@ interface GenerateOptions {
   scalableFontSize: boolean;
   defaultClasses: boolean;
   animations: boolean;
+  preserveAliases: boolean;
+  // How non-default variable modes are selected in the output
+  modeSelector: 'class' | 'data-attribute' | 'media';
+  outputFormat: 'css' | 'tailwind-v3' | 'scss' | 'less';
+  // What to do when two variables clean up to the same CSS name
+  nameCollisions: 'warn' | 'suffix' | 'collection';
+  // Text styles as separate --text/--leading/--font-weight lines, --text-X--* companions, or @utility blocks
+  textStyleOutput: 'split' | 'companions' | 'utility';
+  // Also emit library variables bound in the file (re-extracts when toggled)
+  includeLibraries: boolean;
+  // Which layers the design scan walks (re-scans when changed)
+  scanScope: 'selection' | 'page' | 'all-pages';
+  // 50–950 OKLCH ramps around the detected primary/secondary/accent colors (Tailwind names only)
+  colorRamps: boolean;
+  // How colors are written: colors are collected as hex and converted when emitted
+  colorFormat: 'hex' | 'rgb' | 'hsl' | 'oklch' | 'display-p3';
+  // Largest CIEDE2000 distance at which a layer color snaps to the default palette (0 = never)
+  paletteTolerance: number;
 }
 
 const DEFAULT_OPTIONS: GenerateOptions = {
@@ -63,6 +95,16 @@ const DEFAULT_OPTIONS: GenerateOptions = {
   scalableFontSize: false,
   defaultClasses: false,
   animations: true,
+  preserveAliases: false,
+  modeSelector: 'class',
+  outputFormat: 'css',
+  nameCollisions: 'warn',
+  textStyleOutput: 'split',
+  includeLibraries: false,
+  scanScope: 'page',
+  colorRamps: false,
+  colorFormat: 'hex',
+  paletteTolerance: 2,
 };
 
 // ─── CSS Section interface for per-section copy ───
@@ -70,11 +112,33 @@ const DEFAULT_OPTIONS: GenerateOptions = {
 interface CSSSection {
   label: string;
   css: string;
+  mode?: string; // set when the section overrides a non-default variable mode
+  utility?: boolean; // top-level @utility blocks, emitted after @theme
+  heading?: string; // comment above the declarations, when it says more than the label
+  entries?: ThemeEntry[]; // the declarations in css, as data for the other output formats
+  utilities?: TextUtility[]; // the @utility blocks in css
+}
+
+// One custom property of a generated section
+interface ThemeEntry {
+  name: string;
+  value: string;
+  namespace: string | null; // theme namespace ("color", "text" …); null for names outside them
+  key: string; // key within the namespace, cased like the name
+  companion?: string; // line-height / font-weight / letter-spacing of a --text-* entry
+  ref?: string; // alias target when value is var(ref)
+}
+
+// A text style written as an @utility block
+interface TextUtility {
+  name: string;
+  declarations: { property: string; value: string; ref?: string }[];
 }
 
 interface CSSOutput {
   full: string;
   sections: CSSSection[];
+  warnings?: LintWarning[];
 }
 
 // ─── Lint interfaces ───
@@ -150,51 +214,157 @@ function rgbaToHex(r: number, g: number, b: number, a: number = 1): string {
 }
 
 // Words that are noise per category — they repeat what the prefix already says
-const CATEGORY_NOISE: Record<string, Set<string>> = {
-  'color':       new Set(['color', 'colors', 'colour', 'colours']),
-  'text':        new Set(['font', 'size', 'text', 'typography', 'type']),
-  'leading':     new Set(['font', 'size', 'text', 'typography', 'type', 'line', 'height', 'leading']),
-  'font-weight': new Set(['font', 'size', 'text', 'typography', 'type', 'weight']),
-  'space':       new Set(['spacing', 'space']),
-  'radius':      new Set(['radius', 'radii', 'border', 'corner']),
-  'shadow':      new Set(['shadow', 'shadows', 'effect', 'effects']),
+const CATEGORY_NOISE: Record<string, string[]> = {
+  'color':       ['color', 'colors', 'colour', 'colours'],
+  'text':        ['font', 'size', 'text', 'typography', 'type'],
+  'leading':     ['font', 'size', 'text', 'typography', 'type', 'line', 'height', 'leading'],
+  'font-weight': ['font', 'size', 'text', 'typography', 'type', 'weight'],
+  'spacing':     ['spacing', 'space', 'gap'],
+  'opacity':     ['opacity', 'alpha'],
+  'font-family': ['font', 'fonts', 'family', 'typeface', 'typography'],
+  'radius':      ['radius', 'radii', 'border', 'corner', 'rounded'],
+  'shadow':      ['shadow', 'shadows', 'effect', 'effects'],
+  'tracking':    ['font', 'size', 'text', 'typography', 'type', 'letter', 'spacing', 'tracking'],
 };
 
 // High-level grouping names from Figma that don't add token meaning
-const GROUP_NOISE = new Set([
+const GROUP_NOISE = [
   'primitives', 'primitive', 'semantic', 'tokens', 'token',
   'base', 'core', 'palette', 'foundation', 'foundations',
   'neutrals', 'neutral',
-]);
+];
+
+// ─── Naming rules ───
+
+interface NamingRename {
+  find: string;     // regex source, matched against the Figma path ("Brand/Primary/600")
+  replace: string;
+}
+
+interface NamingRules {
+  prefix: string;                          // global prefix, "ds" -> --ds-color-primary
+  casing: 'kebab' | 'snake' | 'camel';
+  keepCollection: boolean;                 // prepend the collection name to variable names
+  groupNoise: string[];
+  categoryNoise: Record<string, string[]>;
+  renames: NamingRename[];
+}
+
+// Active rules — defaults until loaded from the document settings or edited in the Naming panel
+let namingRules: NamingRules = normalizeNamingRules(null);
+
+// Fill in missing fields and drop malformed entries from stored/posted rules
+function normalizeNamingRules(raw: any): NamingRules {
+  const rules = raw || {};
+  const words = (list: any, fallback: string[]): string[] =>
+    Array.isArray(list) ? list.map((w: any) => String(w).trim().toLowerCase()).filter((w: string) => w.length > 0) : fallback.slice();
+
+  const categoryNoise: Record<string, string[]> = {};
+  for (const category of Object.keys(CATEGORY_NOISE)) {
+    categoryNoise[category] = words(rules.categoryNoise && rules.categoryNoise[category], CATEGORY_NOISE[category]);
+  }
+  // Rules saved before unscoped numbers moved to --spacing- kept their words under "space"
+  if (rules.categoryNoise && Array.isArray(rules.categoryNoise.space)) {
+    categoryNoise['spacing'] = words(rules.categoryNoise.space, CATEGORY_NOISE['spacing']);
+  }
+
+  return {
+    prefix: typeof rules.prefix === 'string' ? slugify(rules.prefix) : '',
+    casing: rules.casing === 'snake' || rules.casing === 'camel' ? rules.casing : 'kebab',
+    keepCollection: rules.keepCollection === true,
+    groupNoise: words(rules.groupNoise, GROUP_NOISE),
+    categoryNoise: categoryNoise,
+    renames: Array.isArray(rules.renames)
+      ? rules.renames
+          .filter((r: any) => r && typeof r.find === 'string' && r.find.length > 0)
+          .map((r: any) => ({ find: r.find, replace: typeof r.replace === 'string' ? r.replace : '' }))
+      : [],
+  };
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase()
+    .replace(/[\/\s]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// Run the user's regex renames over a Figma path; invalid patterns are skipped
+function applyRenames(name: string): string {
+  let result = name;
+  for (const rule of namingRules.renames) {
+    try {
+      result = result.replace(new RegExp(rule.find, 'g'), rule.replace);
+    } catch (e) {
+      // Ignore patterns that don't compile
+    }
+  }
+  return result;
+}
+
+// "--ds-" when a global prefix is set, otherwise "--"
+function variablePrefix(): string {
+  return namingRules.prefix ? `--${namingRules.prefix}-` : '--';
+}
+
+// Strip the global prefix so namespace lookups see "--color-primary"
+function unprefixedName(name: string): string {
+  const prefix = variablePrefix();
+  return prefix !== '--' && name.indexOf(prefix) === 0 ? '--' + name.slice(prefix.length) : name;
+}
+
+function joinSegments(segments: string[]): string {
+  if (namingRules.casing === 'snake') return segments.join('_');
+  if (namingRules.casing === 'camel') {
+    return segments.map((s, i) => i === 0 ? s : s.charAt(0).toUpperCase() + s.slice(1)).join('');
+  }
+  return segments.join('-');
+}
+
+// A hyphenated key in the chosen casing: "primary-600" -> primary_600 / primary600
+function casedKey(key: string): string {
+  return joinSegments(key.split('-').filter(s => s.length > 0));
+}
+
+// Custom property for a key in a Tailwind namespace: ("color", "primary-600") -> --ds-color-primary-600.
+// Every emitter names its variables through here, so the global prefix and the casing reach all of them
+function themeVariableName(namespace: string, key: string): string {
+  return variablePrefix() + namespace + '-' + casedKey(key);
+}
 
 // Convert Figma variable name to a clean CSS variable name
 // category controls the prefix (color, text, leading, shadow ...)
-function toCSSVariableName(name: string, _collection: string, _mode: string, category?: string): string {
-  let cleaned = name.toLowerCase();
-
-  // Replace slashes and spaces with hyphens
-  cleaned = cleaned.replace(/[\/\s]+/g, '-');
-  cleaned = cleaned.replace(/[^a-z0-9-]/g, '');
-  cleaned = cleaned.replace(/-+/g, '-');
-  cleaned = cleaned.replace(/^-|-$/g, '');
+function toCSSVariableName(name: string, collection: string, _mode: string, category?: string, keepCollection = namingRules.keepCollection): string {
+  const key = cleanNameKey(name, collection, category, keepCollection);
+  return category ? themeVariableName(category, key) : variablePrefix() + casedKey(key);
+}
 
-  let segments = cleaned.split('-');
+// Hyphenated key left once noise words are stripped and segments collapsed ("Colors/Primary/600" -> primary-600)
+function cleanNameKey(name: string, collection: string, category?: string, keepCollection = namingRules.keepCollection): string {
+  let segments = slugify(applyRenames(name)).split('-').filter(s => s.length > 0);
 
   // 1. Strip words that are synonymous with the category prefix
-  if (category && CATEGORY_NOISE[category]) {
-    const noise = CATEGORY_NOISE[category];
-    segments = segments.filter(s => !noise.has(s));
+  if (category && namingRules.categoryNoise[category]) {
+    const noise = namingRules.categoryNoise[category];
+    segments = segments.filter(s => noise.indexOf(s) === -1);
   }
 
   // 2. Strip leading grouping-only words (e.g. "neutrals", "primitives")
-  while (segments.length > 1 && GROUP_NOISE.has(segments[0])) {
+  while (segments.length > 1 && namingRules.groupNoise.indexOf(segments[0]) !== -1) {
     segments.shift();
   }
 
-  // 3. Deduplicate adjacent identical segments ("primary-primary" -> "primary")
+  // 3. Keep the collection name in front when asked ("Brand Core" -> brand-core-primary)
+  if (keepCollection && collection) {
+    const collectionSegments = slugify(collection).split('-').filter(s => s.length > 0);
+    segments = collectionSegments.concat(segments);
+  }
+
+  // 4. Deduplicate adjacent identical segments ("primary-primary" -> "primary")
   segments = segments.filter((s, i) => i === 0 || s !== segments[i - 1]);
 
-  // 4. For --leading-*, strip a trailing font-weight number (e.g. "h4-500" -> "h4")
+  // 5. For --leading-*, strip a trailing font-weight number (e.g. "h4-500" -> "h4")
   if (category === 'leading' && segments.length > 1) {
     const last = segments[segments.length - 1];
     if (/^[1-9]00$/.test(last)) {
@@ -204,15 +374,54 @@ function toCSSVariableName(name: string, _collection: string, _mode: string, cat
 
   if (segments.length === 0) segments = ['default'];
 
-  const prefix = category ? `${category}-` : '';
-  return `--${prefix}${segments.join('-')}`;
+  return segments.join('-');
+}
+
+// ─── Theme entries ───
+
+// Entry for a key in a namespace, named through themeVariableName
+function themeEntry(namespace: string, key: string, value: string): ThemeEntry {
+  return { name: themeVariableName(namespace, key), value: value, namespace: namespace, key: casedKey(key) };
+}
+
+// Entry for a style named in Figma ("Heading/H1") in a category's namespace
+function styleEntry(styleName: string, category: string, value: string): ThemeEntry {
+  return themeEntry(category, cleanNameKey(styleName, '', category), value);
+}
+
+// "--text-h1--line-height" and friends, kept with the --text-* entry they belong to
+function companionEntry(text: ThemeEntry, companion: string, value: string): ThemeEntry {
+  return { name: text.name + '--' + companion, value: value, namespace: text.namespace, key: text.key, companion: companion };
+}
+
+// Entry for a name decided elsewhere (collision handling, code syntax set in Figma): in the category's namespace
+// when the name is in it, else in the first theme namespace it starts with
+function namedEntry(name: string, value: string, category: string | null): ThemeEntry {
+  const bare = unprefixedName(name);
+  const candidates = (category ? [category] : []).concat(THEME_NAMESPACES.map(ns => ns.namespace));
+  for (const namespace of candidates) {
+    const prefix = '--' + namespace + '-';
+    if (bare.indexOf(prefix) === 0 && bare.indexOf('--', prefix.length) === -1) {
+      return { name: name, value: value, namespace: namespace, key: bare.slice(prefix.length) };
+    }
+  }
+  return { name: name, value: value, namespace: null, key: bare.slice(2) };
+}
+
+// "  --name: value;" for an entry, recorded with the section's entries
+function declareEntry(entries: ThemeEntry[], entry: ThemeEntry): string {
+  entries.push(entry);
+  return '  ' + entry.name + ': ' + entry.value + ';\n';
 }
 
 // Resolve variable value (handles aliases)
+// fetchMissing looks up alias targets that aren't in the maps (library variables) and caches them
 async function resolveVariableValue(
   variable: Variable,
   modeId: string,
-  variablesMap: Map<string, Variable>
+  variablesMap: Map<string, Variable>,
+  collectionsMap?: Map<string, VariableCollection>,
+  fetchMissing = false
 ): Promise<any> {
   const valueByMode = variable.valuesByMode[modeId];
 
@@ -222,9 +431,18 @@ async function resolveVariableValue(
 
   // If it's an alias, resolve it
   if (typeof valueByMode === 'object' && 'type' in valueByMode && valueByMode.type === 'VARIABLE_ALIAS') {
-    const aliasedVariable = variablesMap.get(valueByMode.id);
+    let aliasedVariable = variablesMap.get(valueByMode.id);
+    if (!aliasedVariable && fetchMissing) {
+      aliasedVariable = await importLibraryVariable(valueByMode.id, variablesMap, collectionsMap);
+    }
     if (aliasedVariable) {
-      return await resolveVariableValue(aliasedVariable, modeId, variablesMap);
+      // Mode ids belong to one collection — across collections follow the target's default mode
+      let targetModeId = modeId;
+      if (aliasedVariable.variableCollectionId !== variable.variableCollectionId && collectionsMap) {
+        const targetCollection = collectionsMap.get(aliasedVariable.variableCollectionId);
+        if (targetCollection) targetModeId = targetCollection.defaultModeId;
+      }
+      return await resolveVariableValue(aliasedVariable, targetModeId, variablesMap, collectionsMap, fetchMissing);
     }
   }
 
@@ -232,11 +450,11 @@ async function resolveVariableValue(
 }
 
 // Format value for CSS
-function formatValueForCSS(value: any, resolvedType: VariableResolvedDataType): string {
+function formatValueForCSS(value: any, resolvedType: VariableResolvedDataType, format: GenerateOptions['colorFormat']): string {
   switch (resolvedType) {
     case 'COLOR':
       if (value && typeof value === 'object' && 'r' in value) {
-        return rgbaToHex(value.r, value.g, value.b, value.a);
+        return formatColor(rgbaToHex(value.r, value.g, value.b, value.a), format);
       }
       return String(value);
 
@@ -337,6 +555,199 @@ function hexSaturation(hex: string): number {
   return (max - min) / max;
 }
 
+// ─── OKLCH color math ───
+
+interface Oklch {
+  l: number; // 0–1
+  c: number; // chroma, ~0–0.4
+  h: number; // hue in degrees
+}
+
+function srgbToLinear(v: number): number {
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(v: number): number {
+  return v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+}
+
+// Linear sRGB -> OKLab (Björn Ottosson's matrices)
+function linearRgbToOklab(r: number, g: number, b: number): { L: number; a: number; b: number } {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return {
+    L: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  };
+}
+
+function oklabToLinearRgb(L: number, a: number, b: number): { r: number; g: number; b: number } {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+  return {
+    r: 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+  };
+}
+
+function hexToOklch(hex: string): Oklch {
+  const raw = hex.replace('#', '').substring(0, 6);
+  const lab = linearRgbToOklab(
+    srgbToLinear(parseInt(raw.substring(0, 2), 16) / 255),
+    srgbToLinear(parseInt(raw.substring(2, 4), 16) / 255),
+    srgbToLinear(parseInt(raw.substring(4, 6), 16) / 255)
+  );
+  const c = Math.sqrt(lab.a * lab.a + lab.b * lab.b);
+  let h = Math.atan2(lab.b, lab.a) * 180 / Math.PI;
+  if (h < 0) h += 360;
+  return { l: lab.L, c: c, h: c < 0.0001 ? 0 : h };
+}
+
+function oklchToLinearRgb(color: Oklch): { r: number; g: number; b: number } {
+  const rad = color.h * Math.PI / 180;
+  return oklabToLinearRgb(color.l, color.c * Math.cos(rad), color.c * Math.sin(rad));
+}
+
+function inSrgbGamut(rgb: { r: number; g: number; b: number }): boolean {
+  const eps = 0.0001;
+  return rgb.r >= -eps && rgb.r <= 1 + eps && rgb.g >= -eps && rgb.g <= 1 + eps && rgb.b >= -eps && rgb.b <= 1 + eps;
+}
+
+// Out-of-gamut colors keep their lightness and hue; chroma is reduced until they fit sRGB
+function oklchToHex(color: Oklch): string {
+  let rgb = oklchToLinearRgb(color);
+  if (!inSrgbGamut(rgb)) {
+    let lo = 0;
+    let hi = color.c;
+    for (let i = 0; i < 20; i++) {
+      const mid = (lo + hi) / 2;
+      if (inSrgbGamut(oklchToLinearRgb({ l: color.l, c: mid, h: color.h }))) lo = mid; else hi = mid;
+    }
+    rgb = oklchToLinearRgb({ l: color.l, c: lo, h: color.h });
+  }
+  const clamp = (v: number) => Math.min(1, Math.max(0, linearToSrgb(Math.min(1, Math.max(0, v)))));
+  return rgbaToHex(clamp(rgb.r), clamp(rgb.g), clamp(rgb.b));
+}
+
+// ─── Color output formats ───
+
+// Trims trailing zeros: 0.1880 -> "0.188"
+function roundColorNumber(value: number, digits: number): string {
+  return String(parseFloat(value.toFixed(digits)));
+}
+
+// Linear sRGB -> linear Display P3 (via XYZ D65)
+function linearSrgbToP3(r: number, g: number, b: number): { r: number; g: number; b: number } {
+  return {
+    r: 0.8224621 * r + 0.1775380 * g,
+    g: 0.0331941 * r + 0.9668058 * g,
+    b: 0.0170827 * r + 0.0723974 * g + 0.9105199 * b
+  };
+}
+
+// Serializes a collected "#rrggbb" / "#rrggbbaa" color in the chosen output format, keeping alpha
+function formatColor(hex: string, format: GenerateOptions['colorFormat']): string {
+  if (!format || format === 'hex' || !/^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(hex)) return hex;
+  const raw = hex.replace('#', '');
+  const r = parseInt(raw.substring(0, 2), 16) / 255;
+  const g = parseInt(raw.substring(2, 4), 16) / 255;
+  const b = parseInt(raw.substring(4, 6), 16) / 255;
+  // Two decimals undo the 8-bit rounding of the hex alpha (0x80 -> 0.5, not 0.502)
+  const alpha = raw.length === 8 ? ' / ' + roundColorNumber(parseInt(raw.substring(6, 8), 16) / 255, 2) : '';
+
+  if (format === 'rgb') {
+    return `rgb(${Math.round(r * 255)} ${Math.round(g * 255)} ${Math.round(b * 255)}${alpha})`;
+  }
+  if (format === 'hsl') {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    const d = max - min;
+    const sat = d === 0 ? 0 : d / (1 - Math.abs(2 * l - 1));
+    let h = 0;
+    if (d !== 0) {
+      if (max === r) h = ((g - b) / d) % 6;
+      else if (max === g) h = (b - r) / d + 2;
+      else h = (r - g) / d + 4;
+      h = (h * 60 + 360) % 360;
+    }
+    return `hsl(${roundColorNumber(h, 1)} ${roundColorNumber(sat * 100, 1)}% ${roundColorNumber(l * 100, 1)}%${alpha})`;
+  }
+  if (format === 'oklch') {
+    const color = hexToOklch(hex);
+    return `oklch(${roundColorNumber(color.l * 100, 1)}% ${roundColorNumber(color.c, 3)} ${roundColorNumber(color.h, 3)}${alpha})`;
+  }
+  // display-p3: same color, expressed in the wider space
+  const p3 = linearSrgbToP3(srgbToLinear(r), srgbToLinear(g), srgbToLinear(b));
+  const channel = (v: number) => roundColorNumber(linearToSrgb(Math.min(1, Math.max(0, v))), 4);
+  return `color(display-p3 ${channel(p3.r)} ${channel(p3.g)} ${channel(p3.b)}${alpha})`;
+}
+
+// Tailwind arbitrary values can't contain spaces: bg-[oklch(62.3%_0.188_259.81)]
+function formatArbitraryColor(hex: string, format: GenerateOptions['colorFormat']): string {
+  return formatColor(hex, format).replace(/\s+/g, '_');
+}
+
+// ─── Color ramps ───
+
+// Lightness and relative chroma of Tailwind's own 50–950 scales, so generated ramps sit next to them evenly
+const RAMP_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+const RAMP_LIGHTNESS = [0.971, 0.936, 0.885, 0.808, 0.704, 0.637, 0.577, 0.505, 0.444, 0.396, 0.258];
+const RAMP_CHROMA = [0.05, 0.13, 0.26, 0.47, 0.78, 0.97, 1, 0.87, 0.72, 0.58, 0.38];
+// Semantic colors that get a ramp when Options → Color Ramps is on
+const RAMP_COLOR_NAMES = ['primary', 'secondary', 'accent'];
+
+// Index into RAMP_STEPS whose lightness is closest to the color's
+function closestRampIndex(hex: string): number {
+  const l = hexToOklch(hex).l;
+  let best = 0;
+  for (let i = 1; i < RAMP_LIGHTNESS.length; i++) {
+    if (Math.abs(RAMP_LIGHTNESS[i] - l) < Math.abs(RAMP_LIGHTNESS[best] - l)) best = i;
+  }
+  return best;
+}
+
+// A 50–950 ramp in OKLCH around one color. The source is pinned, unchanged, at its closest step;
+// the ladder on each side is stretched so the steps stay monotonic around it
+function generateColorRamp(hex: string): { step: number; hex: string }[] {
+  const source = hexToOklch(hex);
+  const pin = closestRampIndex(hex);
+  const first = RAMP_LIGHTNESS[0];
+  const last = RAMP_LIGHTNESS[RAMP_LIGHTNESS.length - 1];
+  const pinned = RAMP_LIGHTNESS[pin];
+  const ramp: { step: number; hex: string }[] = [];
+
+  for (let i = 0; i < RAMP_STEPS.length; i++) {
+    if (i === pin) {
+      ramp.push({ step: RAMP_STEPS[i], hex: hex.substring(0, 7) });
+      continue;
+    }
+    const ladder = RAMP_LIGHTNESS[i];
+    const l = i < pin
+      ? source.l + (Math.max(first, source.l) - source.l) * (pinned - ladder) / (pinned - first)
+      : source.l - (source.l - Math.min(last, source.l)) * (pinned - ladder) / (pinned - last);
+    const c = Math.min(0.37, source.c * RAMP_CHROMA[i] / RAMP_CHROMA[pin]);
+    ramp.push({ step: RAMP_STEPS[i], hex: oklchToHex({ l: l, c: c, h: source.h }) });
+  }
+  return ramp;
+}
+
+// "--color-primary-50: …" lines for the semantic colors that get a ramp. Translucent colors are skipped
+function colorRampLines(colors: ClassifiedColor[], format: GenerateOptions['colorFormat'], entries: ThemeEntry[]): string {
+  let lines = '';
+  for (const c of colors) {
+    if (RAMP_COLOR_NAMES.indexOf(c.name) === -1 || c.hex.length > 7) continue;
+    for (const shade of generateColorRamp(c.hex)) {
+      lines += declareEntry(entries, themeEntry('color', c.name + '-' + shade.step, formatColor(shade.hex, format)));
+    }
+  }
+  return lines;
+}
+
 // Size label generators (kept for variables path)
 const SIZE_LABELS_SHORT = ['sm', 'md', 'lg'];
 const SIZE_LABELS_MEDIUM = ['xs', 'sm', 'md', 'lg', 'xl'];
@@ -395,6 +806,15 @@ const TW_LEADING_SCALE = [
   { name: 'loose', val: 2 },
 ];
 
+const TW_TRACKING_SCALE = [
+  { name: 'tighter', val: -0.05 },
+  { name: 'tight', val: -0.025 },
+  { name: 'normal', val: 0 },
+  { name: 'wide', val: 0.025 },
+  { name: 'wider', val: 0.05 },
+  { name: 'widest', val: 0.1 },
+];
+
 const TW_WEIGHT_MAP: Record<number, string> = {
   100: 'thin',
   200: 'extralight',
@@ -450,6 +870,19 @@ function snapLineHeightToTailwind(lh: number): string {
   return best.name;
 }
 
+function snapTrackingToTailwind(em: number): string {
+  let best = TW_TRACKING_SCALE[0];
+  let bestDist = Infinity;
+  for (const step of TW_TRACKING_SCALE) {
+    const dist = Math.abs(step.val - em);
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = step;
+    }
+  }
+  return best.name;
+}
+
 function snapRadiusToTailwind(px: number, usedNames: Set<string>): string {
   if (px >= 500) {
     usedNames.add('full');
@@ -637,8 +1070,90 @@ function getGradientAngle(transform: number[][]): number {
 }
 
 // Scan all nodes on the current page and extract design tokens
-function scanNodesForTokens(): ScannedTokens {
-  const colorMap = new Map<string, { count: number; usedAs: Set<string> }>();
+// Starting layers for a scope, plus a label for the output. Only these subtrees are walked
+function collectScanRoots(scope: GenerateOptions['scanScope']): { roots: SceneNode[]; label: string } {
+  if (scope === 'selection') {
+    const selection = figma.currentPage.selection;
+    if (selection.length > 0) {
+      const names = selection.slice(0, 3).map(n => n.name).join(', ') + (selection.length > 3 ? ' +' + (selection.length - 3) : '');
+      return { roots: selection.slice(), label: 'Selection: ' + names };
+    }
+    return { roots: [], label: 'Selection: nothing selected' };
+  }
+  if (scope === 'all-pages') {
+    let roots: SceneNode[] = [];
+    for (const page of figma.root.children) {
+      roots = roots.concat(page.children);
+    }
+    return { roots: roots, label: 'All pages (' + figma.root.children.length + ')' };
+  }
+  return { roots: figma.currentPage.children.slice(), label: 'Page: ' + figma.currentPage.name };
+}
+
+// "variable:<id>" / "style:<id>" -> the variable or style name, null when it can't be found
+async function bindingName(binding: string): Promise<string | null> {
+  const id = binding.slice(binding.indexOf(':') + 1);
+  try {
+    const found = binding.indexOf('variable:') === 0
+      ? await figma.variables.getVariableByIdAsync(id)
+      : await figma.getStyleByIdAsync(id);
+    return found ? found.name : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Layers handled between yields back to Figma, so big files keep the editor responsive
+const SCAN_BATCH_SIZE = 500;
+
+// One token per running walk. The UI's 'cancel-scan' message cancels the walks running at that moment,
+// so a scan that starts later neither inherits nor clears the flag
+const activeScans = new Set<{ cancelled: boolean }>();
+
+// Selection scope with nothing selected: the UI says so instead of a scan of layers the user didn't pick
+function refuseEmptySelection(scope: GenerateOptions['scanScope'], purpose: 'extract' | 'lint' | 'tokenize'): boolean {
+  if (scope !== 'selection' || figma.currentPage.selection.length > 0) return false;
+  figma.ui.postMessage({ type: 'scan-empty-selection', purpose: purpose });
+  return true;
+}
+
+// Depth-first walk of a scope in findAll order, yielding every SCAN_BATCH_SIZE layers and posting
+// 'scan-progress'. completed is false when the UI cancelled it
+async function walkScope(
+  scope: GenerateOptions['scanScope'],
+  purpose: 'extract' | 'lint' | 'tokenize',
+  visit: (node: SceneNode) => void
+): Promise<{ completed: boolean; label: string }> {
+  const walk = collectScanRoots(scope);
+  const stack: SceneNode[] = walk.roots.slice().reverse();
+  let scanned = 0;
+  const token = { cancelled: false };
+  activeScans.add(token);
+
+  try {
+    while (stack.length > 0) {
+      if (scanned > 0 && scanned % SCAN_BATCH_SIZE === 0) {
+        figma.ui.postMessage({ type: 'scan-progress', scanned: scanned, scope: walk.label, purpose: purpose });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (token.cancelled) return { completed: false, label: walk.label };
+      }
+
+      const node = stack.pop()!;
+      scanned++;
+      if ('children' in node) {
+        for (let i = node.children.length - 1; i >= 0; i--) stack.push(node.children[i]);
+      }
+      visit(node);
+    }
+    return { completed: true, label: walk.label };
+  } finally {
+    activeScans.delete(token);
+  }
+}
+
+// Collects token candidates from every layer in the scope. Resolves to null when cancelled
+async function scanNodesForTokens(scope: GenerateOptions['scanScope'] = 'page', purpose: 'extract' | 'lint' | 'tokenize' = 'extract'): Promise<ScannedTokens | null> {
+  const colorMap = new Map<string, { count: number; usedAs: Set<string>; bindings: Map<string, number>; unbound: number; unboundLayers: string[] }>();
   const typographySet = new Map<string, { fontSize: number; fontFamily: string; fontStyle: string; lineHeight: number | null }>();
   const spacingSet = new Set<number>();
   const radiiSet = new Set<number>();
@@ -646,29 +1161,38 @@ function scanNodesForTokens(): ScannedTokens {
   const gradientMap = new Map<string, { type: 'linear' | 'radial'; angle: number; stops: { color: string; position: number }[] }>();
   const animationMap = new Map<string, { duration: number; easing: string }>();
 
-  const allNodes = figma.currentPage.findAll();
+  // Bindings are recorded as "variable:<id>" / "style:<id>" and resolved to names after the walk
+  const recordColor = function(node: SceneNode, paint: SolidPaint, usedAs: string, styleId: string | PluginAPI['mixed'] | undefined) {
+    const hex = rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity !== undefined ? paint.opacity : 1);
+    const entry = colorMap.get(hex) || { count: 0, usedAs: new Set<string>(), bindings: new Map<string, number>(), unbound: 0, unboundLayers: [] };
+    entry.count++;
+    entry.usedAs.add(usedAs);
+    const boundVariable = paint.boundVariables && paint.boundVariables.color;
+    const binding = boundVariable ? 'variable:' + boundVariable.id
+      : typeof styleId === 'string' && styleId ? 'style:' + styleId
+      : null;
+    if (binding) {
+      entry.bindings.set(binding, (entry.bindings.get(binding) || 0) + 1);
+    } else {
+      entry.unbound++;
+      if (entry.unboundLayers.length < 3 && entry.unboundLayers.indexOf(node.name) === -1) entry.unboundLayers.push(node.name);
+    }
+    colorMap.set(hex, entry);
+  };
 
-  for (const node of allNodes) {
+  const scan = await walkScope(scope, purpose, function(node) {
     // --- Colors from fills and strokes ---
     if ('fills' in node && Array.isArray(node.fills)) {
       for (const paint of node.fills as ReadonlyArray<Paint>) {
         if (paint.type === 'SOLID' && paint.visible !== false) {
-          const hex = rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity !== undefined ? paint.opacity : 1);
-          const entry = colorMap.get(hex) || { count: 0, usedAs: new Set<string>() };
-          entry.count++;
-          entry.usedAs.add(node.type === 'TEXT' ? 'text' : 'fill');
-          colorMap.set(hex, entry);
+          recordColor(node, paint, node.type === 'TEXT' ? 'text' : 'fill', 'fillStyleId' in node ? node.fillStyleId : undefined);
         }
       }
     }
     if ('strokes' in node && Array.isArray(node.strokes)) {
       for (const paint of node.strokes as ReadonlyArray<Paint>) {
         if (paint.type === 'SOLID' && paint.visible !== false) {
-          const hex = rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity !== undefined ? paint.opacity : 1);
-          const entry = colorMap.get(hex) || { count: 0, usedAs: new Set<string>() };
-          entry.count++;
-          entry.usedAs.add('stroke');
-          colorMap.set(hex, entry);
+          recordColor(node, paint, 'stroke', 'strokeStyleId' in node ? node.strokeStyleId : undefined);
         }
       }
     }
@@ -823,14 +1347,31 @@ function scanNodesForTokens(): ScannedTokens {
         }
       }
     }
+  });
+  if (!scan.completed) return null;
+
+  // Name each color after the variable/style most of its bound usages point to
+  const bindingNames = new Map<string, string | null>();
+  for (const data of colorMap.values()) {
+    for (const binding of data.bindings.keys()) {
+      if (!bindingNames.has(binding)) bindingNames.set(binding, await bindingName(binding));
+    }
   }
 
   // Convert maps/sets to sorted arrays
-  const colors = Array.from(colorMap.entries()).map(([hex, data]) => ({
-    hex,
-    count: data.count,
-    usedAs: Array.from(data.usedAs) as ('fill' | 'stroke' | 'text')[]
-  }));
+  const colors = Array.from(colorMap.entries()).map(([hex, data]) => {
+    const ranked = Array.from(data.bindings.entries())
+      .filter(([binding]) => bindingNames.get(binding))
+      .sort((a, b) => b[1] - a[1]);
+    return {
+      hex,
+      count: data.count,
+      usedAs: Array.from(data.usedAs) as ('fill' | 'stroke' | 'text')[],
+      token: ranked.length > 0 ? bindingNames.get(ranked[0][0])! : undefined,
+      unbound: data.unbound,
+      unboundLayers: data.unboundLayers,
+    };
+  });
 
   const typography = Array.from(typographySet.values());
   // Sort by fontSize descending
@@ -842,7 +1383,7 @@ function scanNodesForTokens(): ScannedTokens {
   const gradients = Array.from(gradientMap.values());
   const animations = Array.from(animationMap.values()).sort((a, b) => a.duration - b.duration);
 
-  return { colors, typography, spacing, radii, shadows, gradients, animations };
+  return { colors, typography, spacing, radii, shadows, gradients, animations, scope: scan.label };
 }
 
 // Map Figma easing type to CSS timing function
@@ -877,25 +1418,43 @@ function generateScannedCSS(tokens: ScannedTokens, opts: GenerateOptions = DEFAU
   const useTW = opts.defaultClasses;
 
   // --- Colors ---
-  if (opts.colors && tokens.colors.length > 0) {
+  // Colors bound to a variable or style keep its name; only raw hex values get invented names
+  const boundColors = tokens.colors.filter(c => c.token);
+  const rawColors = tokens.colors.filter(c => !c.token);
+  if (opts.colors && boundColors.length > 0) {
+    let sectionCSS = '\n  /* Bound Colors */\n';
+    const entries: ThemeEntry[] = [];
+    const seenNames = new Set<string>();
+    for (const c of boundColors) {
+      const entry = styleEntry(c.token!, 'color', formatColor(c.hex, opts.colorFormat));
+      if (seenNames.has(entry.name)) continue;
+      seenNames.add(entry.name);
+      sectionCSS += declareEntry(entries, entry);
+    }
+    sections.push({ label: 'Bound Colors', css: sectionCSS, entries: entries });
+  }
+  if (opts.colors && rawColors.length > 0) {
     let sectionCSS = '';
+    const entries: ThemeEntry[] = [];
     if (useTW) {
-      const { semantic, palette } = classifyColorsForTailwind(tokens.colors);
+      const { semantic, palette } = classifyColorsForTailwind(rawColors);
       if (semantic.length > 0) {
         sectionCSS += '\n  /* Colors */\n';
         for (const c of semantic) {
-          sectionCSS += `  --color-${c.name}: ${c.hex};\n`;
+          sectionCSS += declareEntry(entries, themeEntry('color', c.name, formatColor(c.hex, opts.colorFormat)));
         }
       }
+      const rampLines = opts.colorRamps ? colorRampLines(semantic, opts.colorFormat, entries) : '';
+      if (rampLines) sectionCSS += '\n  /* Color Ramps */\n' + rampLines;
       if (palette.length > 0) {
         sectionCSS += '\n  /* Color Palette */\n';
         for (const c of palette) {
-          sectionCSS += `  --color-${c.name}: ${c.hex};\n`;
+          sectionCSS += declareEntry(entries, themeEntry('color', c.name, formatColor(c.hex, opts.colorFormat)));
         }
       }
     } else {
       sectionCSS += '\n  /* Colors */\n';
-      const sorted = [...tokens.colors].sort((a, b) => b.count - a.count);
+      const sorted = [...rawColors].sort((a, b) => b.count - a.count);
       const grouped = new Map<string, { hex: string; luminance: number }[]>();
       for (const c of sorted) {
         const hue = hexHue(c.hex);
@@ -908,25 +1467,26 @@ function generateScannedCSS(tokens: ScannedTokens, opts: GenerateOptions = DEFAU
       for (const [family, shades] of grouped) {
         shades.sort((a, b) => b.luminance - a.luminance);
         if (shades.length === 1) {
-          sectionCSS += `  --color-${family}-500: ${shades[0].hex};\n`;
+          sectionCSS += declareEntry(entries, themeEntry('color', family + '-500', formatColor(shades[0].hex, opts.colorFormat)));
         } else {
           const steps = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900];
           const pick = shades.length <= steps.length
             ? steps.filter((_, i) => i % Math.ceil(steps.length / shades.length) === 0).slice(0, shades.length)
             : steps;
           for (let i = 0; i < shades.length && i < pick.length; i++) {
-            sectionCSS += `  --color-${family}-${pick[i]}: ${shades[i].hex};\n`;
+            sectionCSS += declareEntry(entries, themeEntry('color', family + '-' + pick[i], formatColor(shades[i].hex, opts.colorFormat)));
           }
         }
       }
     }
-    if (sectionCSS) sections.push({ label: 'Colors', css: sectionCSS });
+    if (sectionCSS) sections.push({ label: 'Colors', css: sectionCSS, entries: entries });
   }
 
   // --- Font Families ---
   const uniqueFamilies = new Set(tokens.typography.map(t => t.fontFamily));
   if (opts.fontFamilies && uniqueFamilies.size > 0) {
     let sectionCSS = '\n  /* Font Families */\n';
+    const entries: ThemeEntry[] = [];
     if (useTW) {
       const SYSTEM_FALLBACKS: Record<string, string> = {
         sans: 'ui-sans-serif, system-ui, sans-serif',
@@ -936,29 +1496,30 @@ function generateScannedCSS(tokens: ScannedTokens, opts: GenerateOptions = DEFAU
       for (const family of uniqueFamilies) {
         const kind = classifyFontFamily(family);
         const quoted = family.includes(' ') ? `"${family}"` : family;
-        sectionCSS += `  --font-${kind}: ${quoted}, ${SYSTEM_FALLBACKS[kind]};\n`;
+        sectionCSS += declareEntry(entries, themeEntry('font', kind, `${quoted}, ${SYSTEM_FALLBACKS[kind]}`));
       }
     } else {
       for (const family of uniqueFamilies) {
         const slug = family.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
         const quoted = family.includes(' ') ? `"${family}"` : family;
-        sectionCSS += `  --font-family-${slug}: ${quoted};\n`;
+        sectionCSS += declareEntry(entries, themeEntry('font-family', slug, quoted));
       }
     }
-    sections.push({ label: 'Font Families', css: sectionCSS });
+    sections.push({ label: 'Font Families', css: sectionCSS, entries: entries });
   }
 
   // --- Font Sizes ---
   if (opts.fontSizes && tokens.typography.length > 0) {
     const fontSizes = [...new Set(tokens.typography.map(t => t.fontSize))].sort((a, b) => a - b);
     let sectionCSS = '\n  /* Font Sizes */\n';
+    const entries: ThemeEntry[] = [];
     if (useTW) {
       const usedTextNames = new Set<string>();
       for (const px of fontSizes) {
         const rem = px / 16;
         const name = snapFontSizeToTailwind(rem, usedTextNames);
         const value = opts.scalableFontSize ? generateClampFontSize(rem) : `${rem.toFixed(3)}rem`;
-        sectionCSS += `  --text-${name}: ${value};\n`;
+        sectionCSS += declareEntry(entries, themeEntry('text', name, value));
       }
     } else {
       const roles = getTypoRoles(fontSizes.length);
@@ -966,10 +1527,10 @@ function generateScannedCSS(tokens: ScannedTokens, opts: GenerateOptions = DEFAU
       for (let i = 0; i < fontSizes.length; i++) {
         const rem = fontSizes[i] / 16;
         const value = opts.scalableFontSize ? generateClampFontSize(rem) : `${rem.toFixed(3)}rem`;
-        sectionCSS += `  --text-${reversedRoles[i]}: ${value};\n`;
+        sectionCSS += declareEntry(entries, themeEntry('text', reversedRoles[i], value));
       }
     }
-    sections.push({ label: 'Font Sizes', css: sectionCSS });
+    sections.push({ label: 'Font Sizes', css: sectionCSS, entries: entries });
   }
 
   // --- Line Heights ---
@@ -979,21 +1540,22 @@ function generateScannedCSS(tokens: ScannedTokens, opts: GenerateOptions = DEFAU
     )];
     if (lineHeights.length > 0) {
       let sectionCSS = '\n  /* Line Heights */\n';
+      const entries: ThemeEntry[] = [];
       if (useTW) {
         const usedLeadingNames = new Set<string>();
         for (const lh of lineHeights) {
           const name = snapLineHeightToTailwind(lh);
           if (usedLeadingNames.has(name)) continue;
           usedLeadingNames.add(name);
-          sectionCSS += `  --leading-${name}: ${lh};\n`;
+          sectionCSS += declareEntry(entries, themeEntry('leading', name, String(lh)));
         }
       } else {
         const labels = getSizeLabels(lineHeights.length);
         for (let i = 0; i < lineHeights.length; i++) {
-          sectionCSS += `  --leading-${labels[i]}: ${lineHeights[i]};\n`;
+          sectionCSS += declareEntry(entries, themeEntry('leading', labels[i], String(lineHeights[i])));
         }
       }
-      sections.push({ label: 'Line Heights', css: sectionCSS });
+      sections.push({ label: 'Line Heights', css: sectionCSS, entries: entries });
     }
   }
 
@@ -1002,52 +1564,57 @@ function generateScannedCSS(tokens: ScannedTokens, opts: GenerateOptions = DEFAU
     const weights = [...new Set(tokens.typography.map(t => fontStyleToWeight(t.fontStyle)))].sort((a, b) => a - b);
     if (weights.length > 0) {
       let sectionCSS = '\n  /* Font Weights */\n';
+      const entries: ThemeEntry[] = [];
       for (const w of weights) {
         const name = useTW ? (TW_WEIGHT_MAP[w] || `${w}`) : `${w}`;
-        sectionCSS += `  --font-weight-${name}: ${w};\n`;
+        sectionCSS += declareEntry(entries, themeEntry('font-weight', name, String(w)));
       }
-      sections.push({ label: 'Font Weights', css: sectionCSS });
+      sections.push({ label: 'Font Weights', css: sectionCSS, entries: entries });
     }
   }
 
   // --- Spacing ---
   if (opts.spacing && tokens.spacing.length > 0) {
     let sectionCSS = '\n  /* Spacing */\n';
+    const entries: ThemeEntry[] = [];
     if (useTW) {
       const base = findGCD(tokens.spacing);
-      sectionCSS += `  --spacing: ${(base / 16).toFixed(3)}rem;\n`;
+      // The base step has no key of its own, so it stays out of the namespace maps
+      sectionCSS += declareEntry(entries, { name: variablePrefix() + 'spacing', value: `${(base / 16).toFixed(3)}rem`, namespace: null, key: 'spacing' });
     } else {
       const labels = getSizeLabels(tokens.spacing.length);
       for (let i = 0; i < tokens.spacing.length; i++) {
-        sectionCSS += `  --space-${labels[i]}: ${(tokens.spacing[i] / 16).toFixed(3)}rem;\n`;
+        sectionCSS += declareEntry(entries, themeEntry('spacing', labels[i], `${(tokens.spacing[i] / 16).toFixed(3)}rem`));
       }
     }
-    sections.push({ label: 'Spacing', css: sectionCSS });
+    sections.push({ label: 'Spacing', css: sectionCSS, entries: entries });
   }
 
   // --- Border Radius ---
   if (opts.borderRadius && tokens.radii.length > 0) {
     let sectionCSS = '\n  /* Border Radius */\n';
+    const entries: ThemeEntry[] = [];
     if (useTW) {
       const usedRadiusNames = new Set<string>();
       const sortedRadii = [...tokens.radii].sort((a, b) => a - b);
       for (const px of sortedRadii) {
         const name = snapRadiusToTailwind(px, usedRadiusNames);
         const value = name === 'full' ? '9999px' : `${(px / 16).toFixed(3)}rem`;
-        sectionCSS += `  --radius-${name}: ${value};\n`;
+        sectionCSS += declareEntry(entries, themeEntry('radius', name, value));
       }
     } else {
       const labels = getSizeLabels(tokens.radii.length);
       for (let i = 0; i < tokens.radii.length; i++) {
-        sectionCSS += `  --radius-${labels[i]}: ${tokens.radii[i]}px;\n`;
+        sectionCSS += declareEntry(entries, themeEntry('radius', labels[i], `${tokens.radii[i]}px`));
       }
     }
-    sections.push({ label: 'Border Radius', css: sectionCSS });
+    sections.push({ label: 'Border Radius', css: sectionCSS, entries: entries });
   }
 
   // --- Shadows ---
   if (opts.shadows && tokens.shadows.length > 0) {
     let sectionCSS = '\n  /* Shadows */\n';
+    const entries: ThemeEntry[] = [];
     const sortedShadows = [...tokens.shadows].sort((a, b) => a.blur - b.blur);
     for (let i = 0; i < sortedShadows.length; i++) {
       const s = sortedShadows[i];
@@ -1055,54 +1622,56 @@ function generateScannedCSS(tokens: ScannedTokens, opts: GenerateOptions = DEFAU
         ? (i < TW_SHADOW_NAMES.length ? TW_SHADOW_NAMES[i] : `${i + 1}`)
         : getSizeLabels(sortedShadows.length)[i];
       const inset = s.type ? `${s.type} ` : '';
-      sectionCSS += `  --shadow-${name}: ${inset}${s.offsetX}px ${s.offsetY}px ${s.blur}px ${s.spread}px ${s.color};\n`;
+      sectionCSS += declareEntry(entries, themeEntry('shadow', name, `${inset}${s.offsetX}px ${s.offsetY}px ${s.blur}px ${s.spread}px ${formatColor(s.color, opts.colorFormat)}`));
     }
-    sections.push({ label: 'Shadows', css: sectionCSS });
+    sections.push({ label: 'Shadows', css: sectionCSS, entries: entries });
   }
 
   // --- Gradients ---
   if (opts.gradients && tokens.gradients.length > 0) {
     let sectionCSS = '\n  /* Gradients */\n';
+    const entries: ThemeEntry[] = [];
     for (let i = 0; i < tokens.gradients.length; i++) {
       const g = tokens.gradients[i];
-      const stopsStr = g.stops.map(s => `${s.color} ${s.position}%`).join(', ');
+      const stopsStr = g.stops.map(s => `${formatColor(s.color, opts.colorFormat)} ${s.position}%`).join(', ');
       if (g.type === 'linear') {
-        sectionCSS += `  --gradient-${i + 1}: linear-gradient(${g.angle}deg, ${stopsStr});\n`;
+        sectionCSS += declareEntry(entries, themeEntry('gradient', String(i + 1), `linear-gradient(${g.angle}deg, ${stopsStr})`));
       } else {
         // Use ellipse with proper dimensions and positioning
         const ex = g.ellipseX != null ? g.ellipseX : 100;
         const ey = g.ellipseY != null ? g.ellipseY : 100;
         const cx = g.centerX != null ? g.centerX : 50;
         const cy = g.centerY != null ? g.centerY : 50;
-        sectionCSS += `  --gradient-${i + 1}: radial-gradient(ellipse ${ex}% ${ey}% at ${cx}% ${cy}%, ${stopsStr});\n`;
+        sectionCSS += declareEntry(entries, themeEntry('gradient', String(i + 1), `radial-gradient(ellipse ${ex}% ${ey}% at ${cx}% ${cy}%, ${stopsStr})`));
       }
     }
-    sections.push({ label: 'Gradients', css: sectionCSS });
+    sections.push({ label: 'Gradients', css: sectionCSS, entries: entries });
   }
 
   // --- Animations ---
   if (opts.animations && tokens.animations.length > 0) {
     let sectionCSS = '\n  /* Animations */\n';
+    const entries: ThemeEntry[] = [];
     const seenDurations = new Set<number>();
     const seenEasings = new Set<string>();
     for (const anim of tokens.animations) {
       const snapped = snapDuration(anim.duration);
       if (!seenDurations.has(snapped)) {
         seenDurations.add(snapped);
-        sectionCSS += `  --duration-${snapped}: ${snapped}ms;\n`;
+        sectionCSS += declareEntry(entries, themeEntry('duration', String(snapped), `${snapped}ms`));
       }
       const cssEasing = easingToCSS(anim.easing);
       if (!seenEasings.has(cssEasing)) {
         seenEasings.add(cssEasing);
-        sectionCSS += `  --ease-${cssEasing}: ${cssEasing};\n`;
+        sectionCSS += declareEntry(entries, themeEntry('ease', cssEasing, cssEasing));
       }
     }
-    sections.push({ label: 'Animations', css: sectionCSS });
+    sections.push({ label: 'Animations', css: sectionCSS, entries: entries });
   }
 
   // Build full CSS
   let full = '/* Generated by Figma to Tailwind v4 Plugin */\n';
-  full += '/* Tokens extracted from design scan */\n\n';
+  full += '/* Tokens extracted from design scan' + (tokens.scope ? ' — ' + tokens.scope : '') + ' */\n\n';
   full += '@theme {\n';
   for (const section of sections) {
     full += section.css;
@@ -1112,9 +1681,284 @@ function generateScannedCSS(tokens: ScannedTokens, opts: GenerateOptions = DEFAU
   return { full, sections };
 }
 
+// ─── Variable mode overrides ───
+
+function modeSlug(modeName: string): string {
+  return modeName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'mode';
+}
+
+// Wrap one mode's declarations in the selector picked by opts.modeSelector.
+// prefers-color-scheme only knows light/dark, other modes fall back to data-theme.
+function wrapModeOverride(modeName: string, body: string, strategy: GenerateOptions['modeSelector']): string {
+  const slug = modeSlug(modeName);
+  if (strategy === 'media' && (slug === 'dark' || slug === 'light')) {
+    return '@media (prefers-color-scheme: ' + slug + ') {\n  :root {' + body.replace(/^(?=.)/gm, '  ') + '  }\n}\n';
+  }
+  const selector = strategy === 'class' ? '.' + slug : '[data-theme="' + slug + '"]';
+  return selector + ' {' + body + '}\n';
+}
+
+// Group mode sections by mode name and emit one override block per mode
+function buildModeOverrides(sections: CSSSection[], strategy: GenerateOptions['modeSelector']): string {
+  const bodies = new Map<string, string>();
+  for (const section of sections) {
+    if (!section.mode) continue;
+    bodies.set(section.mode, (bodies.get(section.mode) || '') + section.css);
+  }
+  let css = '';
+  for (const [modeName, body] of bodies) {
+    css += '\n' + wrapModeOverride(modeName, body, strategy);
+  }
+  return css;
+}
+
+// Figma variable scopes that pin a number/string to one Tailwind namespace
+const SCOPE_CATEGORIES: Record<string, string> = {
+  'GAP': 'spacing',
+  'WIDTH_HEIGHT': 'spacing',
+  'CORNER_RADIUS': 'radius',
+  'STROKE_FLOAT': 'border-width',
+  'FONT_SIZE': 'text',
+  'LINE_HEIGHT': 'leading',
+  'LETTER_SPACING': 'tracking',
+  'FONT_WEIGHT': 'font-weight',
+  'OPACITY': 'opacity',
+  'FONT_FAMILY': 'font-family',
+};
+
+// Name-based guess for FLOAT variables without a telling scope
+function guessFloatCategory(name: string): string | undefined {
+  const lower = name.toLowerCase();
+  if (/radius|radii|corner|rounded/.test(lower)) return 'radius';
+  if (/stroke|border[\s_-]?width/.test(lower)) return 'border-width';
+  if (/line[\s_-]?height|leading/.test(lower)) return 'leading';
+  if (/font[\s_-]?size|text[\s_-]?size/.test(lower)) return 'text';
+  if (/font[\s_-]?weight/.test(lower)) return 'font-weight';
+  if (/letter[\s_-]?spacing|tracking/.test(lower)) return 'tracking';
+  if (/opacity|alpha/.test(lower)) return 'opacity';
+  if (/spacing|space|gap|padding|margin/.test(lower)) return 'spacing';
+  return undefined;
+}
+
+// Category prefix for a variable (--color-*, --spacing-*, --radius-* ...)
+// Scopes decide first; the name is only consulted when they are missing or ambiguous
+function variableCategory(variable: VariableData): string | undefined {
+  if (variable.resolvedDataType === 'COLOR') return 'color';
+  if (variable.resolvedDataType !== 'FLOAT' && variable.resolvedDataType !== 'STRING') return undefined;
+
+  const scoped: string[] = [];
+  for (const scope of variable.scopes || []) {
+    const category = SCOPE_CATEGORIES[scope];
+    if (category && scoped.indexOf(category) === -1) scoped.push(category);
+  }
+  if (variable.resolvedDataType === 'STRING') {
+    return scoped.indexOf('font-family') !== -1 ? 'font-family' : undefined;
+  }
+  if (scoped.length === 1) return scoped[0];
+
+  const guessed = guessFloatCategory(variable.name);
+  if (scoped.length === 0) return guessed || 'spacing';
+  return guessed && scoped.indexOf(guessed) !== -1 ? guessed : scoped[0];
+}
+
+// Whether the Options panel includes this variable's category
+function variableIncluded(variable: VariableData, opts: GenerateOptions): boolean {
+  switch (variableCategory(variable)) {
+    case 'color': return opts.colors;
+    case 'radius': return opts.borderRadius;
+    case 'text': case 'tracking': return opts.fontSizes;
+    case 'leading': return opts.lineHeights;
+    case 'font-weight': return opts.fontWeights;
+    case 'font-family': return opts.fontFamilies;
+    case 'opacity': return true;
+  }
+  if (variable.resolvedDataType === 'FLOAT') return opts.spacing;
+  if (variable.resolvedDataType === 'STRING') return opts.fontFamilies;
+  return true;
+}
+
+// CSS value for a variable, formatted for its category
+function formatVariableValue(variable: VariableData, format: GenerateOptions['colorFormat']): string {
+  const value = variable.variableValue;
+  if (typeof value === 'number') {
+    const category = variableCategory(variable);
+    if (category === 'opacity') return formatNumberForCss(value) + '%';
+    if (category === 'font-weight') return String(value);
+  }
+  return formatValueForCSS(value, variable.resolvedDataType, format);
+}
+
+// Web code syntax set in Figma ("var(--color-primary)", "--color-primary" or "color-primary") -> "--color-primary"
+function codeSyntaxToCSSName(web: string): string {
+  let name = web.trim().replace(/^var\(\s*/, '').replace(/\s*\)$/, '');
+  if (name.indexOf('--') !== 0) name = '--' + name.replace(/^-+/, '');
+  return name;
+}
+
+// Namespaces Tailwind v4 turns into utilities
+const TAILWIND_NAMESPACES = [
+  '--color-', '--font-', '--text-', '--font-weight-', '--tracking-', '--leading-',
+  '--breakpoint-', '--container-', '--spacing-', '--radius-', '--shadow-', '--inset-shadow-',
+  '--drop-shadow-', '--blur-', '--perspective-', '--aspect-', '--ease-', '--animate-',
+];
+
+function variableCSSName(variable: VariableData): string {
+  if (variable.webName) return variable.webName;
+  return toCSSVariableName(variable.name, variable.collection, variable.mode, variableCategory(variable));
+}
+
+// ─── Name collisions ───
+
+// How an output names variables, for collision handling
+interface VariableNaming {
+  category: string; // lint category of the collision warnings
+  name: (v: VariableData) => string;
+  scoped: (v: VariableData) => string; // the name with the collection kept in front
+  fixed: (v: VariableData) => boolean; // set in Figma and kept as written
+}
+
+const CSS_NAMING: VariableNaming = {
+  category: 'Name Collisions',
+  name: variableCSSName,
+  scoped: v => toCSSVariableName(v.name, v.collection, v.mode, variableCategory(v), true),
+  fixed: v => !!v.webName,
+};
+
+// Final name per variable id. Different variables that clean up to the same name
+// (noise words stripped, segments collapsed) are reported, and renamed when asked to
+// shadowed holds the variables whose name is still taken by a later one; only the last declaration is emitted
+function assignVariableNames(collectionsData: CollectionData[], strategy: GenerateOptions['nameCollisions'], naming: VariableNaming = CSS_NAMING): { names: Map<string, string>; shadowed: Set<string>; warnings: LintWarning[] } {
+  const names = new Map<string, string>();
+  const shadowed = new Set<string>();
+  const warnings: LintWarning[] = [];
+
+  // One entry per variable (modes share the id), grouped by cleaned name in document order
+  const groups = new Map<string, VariableData[]>();
+  const seen = new Set<string>();
+  for (const collection of collectionsData) {
+    for (const v of collection.variables) {
+      if (seen.has(v.id)) continue;
+      seen.add(v.id);
+      const name = naming.name(v);
+      if (naming === CSS_NAMING && v.webName && !TAILWIND_NAMESPACES.some(ns => name.indexOf(ns) === 0)) {
+        const category = variableCategory(v);
+        warnings.push({
+          category: 'Code Syntax',
+          message: '"' + v.name + '" (' + v.collection + ') uses ' + name + ', which is outside Tailwind\'s theme namespaces, so no utilities are generated for it',
+          severity: 'warning',
+          suggestion: category && category !== 'opacity'
+            ? 'Set its Web code syntax to --' + category + '-…'
+            : 'Start its Web code syntax with a namespace such as --color-, --spacing- or --radius-',
+        });
+      }
+      if (!groups.has(name)) groups.set(name, []);
+      groups.get(name)!.push(v);
+      names.set(v.id, name);
+    }
+  }
+
+  const taken = new Set(groups.keys());
+  const withSuffix = (base: string): string => {
+    let n = 2;
+    while (taken.has(base + '-' + n)) n++;
+    taken.add(base + '-' + n);
+    return base + '-' + n;
+  };
+
+  for (const [name, variables] of groups) {
+    if (variables.length < 2) continue;
+
+    const renamed: string[] = [];
+    const owners = new Map<string, VariableData>();
+    variables.forEach(function(v, i) {
+      let resolved = name;
+      if (naming.fixed(v)) {
+        // Code syntax set in Figma is kept as written
+      } else if (strategy === 'collection') {
+        const scoped = naming.scoped(v);
+        // Still clashing (same collection, or the name already carries it) -> fall back to a suffix
+        resolved = taken.has(scoped) ? (i === 0 ? name : withSuffix(name)) : scoped;
+        taken.add(resolved);
+      } else if (strategy === 'suffix' && i > 0) {
+        resolved = withSuffix(name);
+      }
+      names.set(v.id, resolved);
+      if (resolved !== name) renamed.push(resolved);
+      const previous = owners.get(resolved);
+      if (previous) shadowed.add(previous.id);
+      owners.set(resolved, v);
+    });
+
+    const label = (v: VariableData) => '"' + v.name + '" (' + v.collection + ')';
+    const dropped = variables.filter(v => shadowed.has(v.id));
+    const winner = owners.get(name);
+    const suggestions: string[] = [];
+    if (renamed.length > 0) suggestions.push('Renamed to ' + renamed.join(', '));
+    if (dropped.length > 0) {
+      suggestions.push((winner ? label(winner) + ' wins; ' : '') + dropped.map(label).join(', ') + ' left out. ' +
+        'Rename a variable, or set Options → Name Collisions to add a suffix or the collection name');
+    }
+    warnings.push({
+      category: naming.category,
+      message: name + ' is produced by ' + variables.map(label).join(', '),
+      severity: 'warning',
+      suggestion: suggestions.join('. '),
+    });
+  }
+
+  return { names: names, shadowed: shadowed, warnings: warnings };
+}
+
 // Generate Tailwind v4 CSS from variables/styles
 function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any, opts: GenerateOptions = DEFAULT_OPTIONS): CSSOutput {
   const sections: CSSSection[] = [];
+  const modeSections: CSSSection[] = [];
+
+  // CSS names by variable id, so aliases can become var() references
+  const naming = assignVariableNames(collectionsData, opts.nameCollisions);
+  const namesById = naming.names;
+  const warnings = naming.warnings.slice();
+
+  // Name an alias points at as var(), or null when its resolved value has to be written instead: the target is missing,
+  // left out by a name collision (the name would read the winner's value) or in a category that isn't emitted
+  const variablesById = new Map<string, VariableData>();
+  for (const collection of collectionsData) {
+    for (const v of collection.variables) {
+      if (!variablesById.has(v.id)) variablesById.set(v.id, v);
+    }
+  }
+  // COLOR variables named primary / secondary / accent get a ramp after their declaration, in every mode that sets
+  // them, unless the file already defines shades for that name
+  const definedNames = new Set(namesById.values());
+  const variableRampLines = function(cssVarName: string, variable: VariableData, entries: ThemeEntry[]): string {
+    if (!opts.colorRamps || variable.resolvedDataType !== 'COLOR') return '';
+    const name = RAMP_COLOR_NAMES.find(candidate => themeVariableName('color', candidate) === cssVarName);
+    const value = variable.variableValue;
+    if (!name || !value || typeof value !== 'object' || !('r' in value)) return '';
+    if (RAMP_STEPS.some(step => definedNames.has(themeVariableName('color', name + '-' + step)))) return '';
+    const hex = rgbaToHex(value.r, value.g, value.b, value.a !== undefined ? value.a : 1);
+    return colorRampLines([{ name: name, hex: hex }], opts.colorFormat, entries);
+  };
+
+  const warnedAliases = new Set<string>();
+  const aliasTarget = function(variable: VariableData): string | null {
+    if (!opts.preserveAliases || !variable.aliasOf || !namesById.has(variable.aliasOf)) return null;
+    if (naming.shadowed.has(variable.aliasOf)) return null;
+    const target = variablesById.get(variable.aliasOf);
+    if (target && !variableIncluded(target, opts)) {
+      if (!warnedAliases.has(variable.id)) {
+        warnedAliases.add(variable.id);
+        warnings.push({
+          category: 'Aliases',
+          message: '"' + variable.name + '" (' + variable.collection + ') aliases "' + target.name + '" (' + target.collection + '), which is left out by the current options',
+          severity: 'warning',
+          suggestion: 'Its resolved value is written instead. Turn that category back on in Options to keep the var() reference',
+        });
+      }
+      return null;
+    }
+    return namesById.get(variable.aliasOf)!;
+  };
 
   // Process variables by collection
   for (const collection of collectionsData) {
@@ -1126,9 +1970,20 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
       modeGroups.get(v.mode)!.push(v);
     });
 
+    // Default mode goes into @theme, the rest become override blocks
+    const defaultMode = collection.defaultMode || (collection.modes.length > 0 ? collection.modes[0].name : '');
+    const modeOrder = Array.from(modeGroups.keys()).sort(function(a, b) {
+      return (a === defaultMode ? 0 : 1) - (b === defaultMode ? 0 : 1);
+    });
+    const defaultValues = new Map<string, string>();
+
     let collectionCSS = '';
+    let collectionEntries: ThemeEntry[] = [];
+    let collectionHeading = '';
 
-    for (const [modeName, variables] of modeGroups) {
+    for (const modeName of modeOrder) {
+      const variables = modeGroups.get(modeName)!;
+      const isDefaultMode = modeName === defaultMode;
       const uniqueVars = new Map<string, VariableData>();
       variables.forEach(function(v) {
         const key = v.name + '-' + v.mode;
@@ -1138,36 +1993,48 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
       });
 
       var modeLines = '';
+      const modeEntries: ThemeEntry[] = [];
       for (const variable of uniqueVars.values()) {
-        if (variable.resolvedDataType === 'COLOR' && !opts.colors) continue;
-        if (variable.resolvedDataType === 'FLOAT' && !opts.spacing) continue;
-        if (variable.resolvedDataType === 'STRING' && !opts.fontFamilies) continue;
-
-        let category: string | undefined;
-        if (variable.resolvedDataType === 'COLOR') {
-          category = 'color';
-        } else if (variable.resolvedDataType === 'FLOAT') {
-          category = 'space';
+        if (!variableIncluded(variable, opts) || naming.shadowed.has(variable.id)) continue;
+
+        const cssVarName = namesById.get(variable.id) || variableCSSName(variable);
+        const ref = aliasTarget(variable);
+        const cssValue = ref ? 'var(' + ref + ')' : formatVariableValue(variable, opts.colorFormat);
+        if (isDefaultMode) {
+          defaultValues.set(cssVarName, cssValue);
+        } else if (defaultValues.get(cssVarName) === cssValue) {
+          // Same as the default mode — nothing to override
+          continue;
         }
-        const cssVarName = toCSSVariableName(variable.name, collection.name, modeName, category);
-        const cssValue = formatValueForCSS(variable.variableValue, variable.resolvedDataType);
-        modeLines += '  ' + cssVarName + ': ' + cssValue + ';\n';
+        const entry = namedEntry(cssVarName, cssValue, variableCategory(variable));
+        if (ref) entry.ref = ref;
+        modeLines += declareEntry(modeEntries, entry);
+        modeLines += variableRampLines(cssVarName, variable, modeEntries);
       }
 
-      if (modeLines) {
-        collectionCSS += '\n  /* ' + collection.name + (collection.modes.length > 1 ? ' - ' + modeName : '') + ' */\n';
-        collectionCSS += modeLines;
+      if (!modeLines) continue;
+
+      const heading = collection.name + (collection.modes.length > 1 ? ' - ' + modeName : '') +
+        (collection.library ? ' (from library: ' + collection.library + ')' : '');
+      const comment = '\n  /* ' + heading + ' */\n';
+      if (isDefaultMode) {
+        collectionCSS += comment + modeLines;
+        collectionEntries = modeEntries;
+        collectionHeading = heading;
+      } else {
+        modeSections.push({ label: collection.name + ' (' + modeName + ')', css: comment + modeLines, mode: modeName, heading: heading, entries: modeEntries });
       }
     }
 
     if (collectionCSS) {
-      sections.push({ label: collection.name, css: collectionCSS });
+      sections.push({ label: collection.name, css: collectionCSS, heading: collectionHeading, entries: collectionEntries });
     }
   }
 
   // Add color styles
   if (opts.colors && stylesData.colors.length > 0) {
     let sectionCSS = '\n  /* Color Styles */\n';
+    const entries: ThemeEntry[] = [];
     if (opts.defaultClasses) {
       var colorEntries: { hex: string; count: number; usedAs: ('fill' | 'stroke' | 'text')[] }[] = [];
       for (const style of stylesData.colors) {
@@ -1179,27 +2046,28 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
       }
       var classified = classifyColorsForTailwind(colorEntries);
       for (var ci = 0; ci < classified.semantic.length; ci++) {
-        sectionCSS += '  --color-' + classified.semantic[ci].name + ': ' + classified.semantic[ci].hex + ';\n';
+        sectionCSS += declareEntry(entries, themeEntry('color', classified.semantic[ci].name, formatColor(classified.semantic[ci].hex, opts.colorFormat)));
       }
+      if (opts.colorRamps) sectionCSS += colorRampLines(classified.semantic, opts.colorFormat, entries);
       for (var pi = 0; pi < classified.palette.length; pi++) {
-        sectionCSS += '  --color-' + classified.palette[pi].name + ': ' + classified.palette[pi].hex + ';\n';
+        sectionCSS += declareEntry(entries, themeEntry('color', classified.palette[pi].name, formatColor(classified.palette[pi].hex, opts.colorFormat)));
       }
     } else {
       for (const style of stylesData.colors) {
         const paint = style.paints[0];
         if (paint && paint.type === 'SOLID' && paint.color) {
-          const name = toCSSVariableName(style.name, '', '', 'color');
           const hex = rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity || 1);
-          sectionCSS += '  ' + name + ': ' + hex + ';\n';
+          sectionCSS += declareEntry(entries, styleEntry(style.name, 'color', formatColor(hex, opts.colorFormat)));
         }
       }
     }
-    sections.push({ label: 'Color Styles', css: sectionCSS });
+    sections.push({ label: 'Color Styles', css: sectionCSS, entries: entries });
   }
 
   // Add text styles
   if (stylesData.textStyles.length > 0) {
     var textLines = '';
+    const textEntries: ThemeEntry[] = [];
 
     if (opts.fontFamilies) {
       const families = new Set<string>();
@@ -1215,18 +2083,18 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
         for (const family of families) {
           const kind = classifyFontFamily(family);
           const quoted = family.includes(' ') ? '"' + family + '"' : family;
-          textLines += '  --font-' + kind + ': ' + quoted + ', ' + SYSTEM_FALLBACKS[kind] + ';\n';
+          textLines += declareEntry(textEntries, themeEntry('font', kind, quoted + ', ' + SYSTEM_FALLBACKS[kind]));
         }
       } else {
         for (const family of families) {
           const slug = family.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
           const quoted = family.includes(' ') ? '"' + family + '"' : family;
-          textLines += '  --font-family-' + slug + ': ' + quoted + ';\n';
+          textLines += declareEntry(textEntries, themeEntry('font-family', slug, quoted));
         }
       }
     }
 
-    if (opts.fontSizes) {
+    if (opts.fontSizes && opts.textStyleOutput === 'split') {
       if (opts.defaultClasses) {
         var fontSizesSorted: { rem: number; style: any }[] = [];
         for (const style of stylesData.textStyles) {
@@ -1249,21 +2117,20 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
           var val = opts.scalableFontSize
             ? generateClampFontSize(dedupedSizes[di].rem)
             : dedupedSizes[di].rem.toFixed(3) + 'rem';
-          textLines += '  --text-' + twName + ': ' + val + ';\n';
+          textLines += declareEntry(textEntries, themeEntry('text', twName, val));
         }
       } else {
         for (const style of stylesData.textStyles) {
           if (style.fontSize) {
-            const textName = toCSSVariableName(style.name, '', '', 'text');
             const rem = style.fontSize / 16;
             var sizeVal = opts.scalableFontSize ? generateClampFontSize(rem) : rem.toFixed(3) + 'rem';
-            textLines += '  ' + textName + ': ' + sizeVal + ';\n';
+            textLines += declareEntry(textEntries, styleEntry(style.name, 'text', sizeVal));
           }
         }
       }
     }
 
-    if (opts.fontWeights) {
+    if (opts.fontWeights && opts.textStyleOutput === 'split') {
       if (opts.defaultClasses) {
         var weightSet = new Set<number>();
         for (const style of stylesData.textStyles) {
@@ -1272,20 +2139,19 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
         var weightsArr = Array.from(weightSet).sort(function(a, b) { return a - b; });
         for (var wi = 0; wi < weightsArr.length; wi++) {
           var wName = TW_WEIGHT_MAP[weightsArr[wi]] || String(weightsArr[wi]);
-          textLines += '  --font-weight-' + wName + ': ' + weightsArr[wi] + ';\n';
+          textLines += declareEntry(textEntries, themeEntry('font-weight', wName, String(weightsArr[wi])));
         }
       } else {
         for (const style of stylesData.textStyles) {
           if (style.fontWeight) {
-            const weightName = toCSSVariableName(style.name, '', '', 'font-weight');
             const numericWeight = fontStyleToWeight(style.fontWeight);
-            textLines += '  ' + weightName + ': ' + numericWeight + ';\n';
+            textLines += declareEntry(textEntries, styleEntry(style.name, 'font-weight', String(numericWeight)));
           }
         }
       }
     }
 
-    if (opts.lineHeights) {
+    if (opts.lineHeights && opts.textStyleOutput === 'split') {
       if (opts.defaultClasses) {
         var lhValues: number[] = [];
         for (const style of stylesData.textStyles) {
@@ -1307,12 +2173,11 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
           var leadName = snapLineHeightToTailwind(lhValues[li]);
           if (usedLeadingNames.has(leadName)) continue;
           usedLeadingNames.add(leadName);
-          textLines += '  --leading-' + leadName + ': ' + lhValues[li] + ';\n';
+          textLines += declareEntry(textEntries, themeEntry('leading', leadName, String(lhValues[li])));
         }
       } else {
         for (const style of stylesData.textStyles) {
           if (style.lineHeight && typeof style.lineHeight === 'object' && 'value' in style.lineHeight) {
-            const leadingName = toCSSVariableName(style.name, '', '', 'leading');
             const lhObj = style.lineHeight as { value: number; unit: string };
             let lhValue: string;
             if (lhObj.unit === 'PIXELS' && style.fontSize) {
@@ -1322,20 +2187,86 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
             } else {
               lhValue = String(lhObj.value);
             }
-            textLines += '  ' + leadingName + ': ' + lhValue + ';\n';
+            textLines += declareEntry(textEntries, styleEntry(style.name, 'leading', lhValue));
+          }
+        }
+      }
+    }
+
+    if (opts.fontSizes && opts.textStyleOutput === 'split') {
+      var usedTrackingNames = new Set<string>();
+      for (const style of stylesData.textStyles) {
+        const tracking = letterSpacingToEm(style.letterSpacing, style.fontSize);
+        if (tracking === null) continue;
+        if (opts.defaultClasses) {
+          // First style per Tailwind step wins, like line heights
+          const trackingName = snapTrackingToTailwind(parseFloat(tracking));
+          if (usedTrackingNames.has(trackingName)) continue;
+          usedTrackingNames.add(trackingName);
+          textLines += declareEntry(textEntries, themeEntry('tracking', trackingName, tracking));
+        } else {
+          textLines += declareEntry(textEntries, styleEntry(style.name, 'tracking', tracking));
+        }
+      }
+    }
+
+    // Composite text styles keep size / leading / weight / tracking of one style together, so a style is
+    // written whole whenever any of its typography options is on
+    var utilityCSS = '';
+    const utilities: TextUtility[] = [];
+    if ((opts.fontSizes || opts.lineHeights || opts.fontWeights) && opts.textStyleOutput !== 'split') {
+      // Family variable a utility points at, when families are emitted
+      const familyRef = function(family: string): string | null {
+        if (!opts.fontFamilies) return null;
+        if (opts.defaultClasses) return themeVariableName('font', classifyFontFamily(family));
+        return themeVariableName('font-family', family.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, ''));
+      };
+      for (const style of stylesData.textStyles) {
+        if (!style.fontSize) continue;
+        const textName = toCSSVariableName(style.name, '', '', 'text');
+        const rem = style.fontSize / 16;
+        const size = opts.scalableFontSize ? generateClampFontSize(rem) : rem.toFixed(3) + 'rem';
+        const leading = lineHeightToRatio(style.lineHeight, style.fontSize);
+        const weight = style.fontWeight ? fontStyleToWeight(style.fontWeight) : null;
+        const tracking = letterSpacingToEm(style.letterSpacing, style.fontSize);
+
+        if (opts.textStyleOutput === 'companions') {
+          const text = styleEntry(style.name, 'text', size);
+          textLines += declareEntry(textEntries, text);
+          if (leading !== null) textLines += declareEntry(textEntries, companionEntry(text, 'line-height', String(leading)));
+          if (weight !== null) textLines += declareEntry(textEntries, companionEntry(text, 'font-weight', String(weight)));
+          if (tracking !== null) textLines += declareEntry(textEntries, companionEntry(text, 'letter-spacing', tracking));
+        } else {
+          const utility: TextUtility = { name: textName.slice(2), declarations: [] };
+          if (style.fontFamily) {
+            const ref = familyRef(style.fontFamily);
+            const quoted = style.fontFamily.includes(' ') ? '"' + style.fontFamily + '"' : style.fontFamily;
+            utility.declarations.push(ref ? { property: 'font-family', value: 'var(' + ref + ')', ref: ref } : { property: 'font-family', value: quoted });
           }
+          utility.declarations.push({ property: 'font-size', value: size });
+          if (leading !== null) utility.declarations.push({ property: 'line-height', value: String(leading) });
+          if (weight !== null) utility.declarations.push({ property: 'font-weight', value: String(weight) });
+          if (tracking !== null) utility.declarations.push({ property: 'letter-spacing', value: tracking });
+          utilities.push(utility);
+          utilityCSS += '\n@utility ' + utility.name + ' {\n';
+          for (const decl of utility.declarations) utilityCSS += '  ' + decl.property + ': ' + decl.value + ';\n';
+          utilityCSS += '}\n';
         }
       }
     }
 
     if (textLines) {
-      sections.push({ label: 'Text Styles', css: '\n  /* Text Styles */\n' + textLines });
+      sections.push({ label: 'Text Styles', css: '\n  /* Text Styles */\n' + textLines, entries: textEntries });
+    }
+    if (utilityCSS) {
+      sections.push({ label: 'Text Utilities', css: utilityCSS, utility: true, utilities: utilities });
     }
   }
 
   // Add effect styles
   if (opts.shadows && stylesData.effects && stylesData.effects.length > 0) {
     let sectionCSS = '\n  /* Effect Styles */\n';
+    const entries: ThemeEntry[] = [];
     if (opts.defaultClasses) {
       var effectList: { style: any; effect: any; blur: number }[] = [];
       for (const style of stylesData.effects) {
@@ -1352,22 +2283,21 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
         var eff = effectList[si].effect;
         var insetStr = eff.type === 'INNER_SHADOW' ? 'inset ' : '';
         var hexStr = rgbaToHex(eff.color.r, eff.color.g, eff.color.b, eff.color.a);
-        sectionCSS += '  --shadow-' + shadowName + ': ' + insetStr + eff.offset.x + 'px ' + eff.offset.y + 'px ' + eff.radius + 'px ' + (eff.spread || 0) + 'px ' + hexStr + ';\n';
+        sectionCSS += declareEntry(entries, themeEntry('shadow', shadowName, insetStr + eff.offset.x + 'px ' + eff.offset.y + 'px ' + eff.radius + 'px ' + (eff.spread || 0) + 'px ' + formatColor(hexStr, opts.colorFormat)));
       }
     } else {
       for (const style of stylesData.effects) {
         if (style.effects && style.effects.length > 0) {
           const effect = style.effects[0];
           if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
-            const name = toCSSVariableName(style.name, '', '', 'shadow');
             const inset = effect.type === 'INNER_SHADOW' ? 'inset ' : '';
             const hex = rgbaToHex(effect.color.r, effect.color.g, effect.color.b, effect.color.a);
-            sectionCSS += '  ' + name + ': ' + inset + effect.offset.x + 'px ' + effect.offset.y + 'px ' + effect.radius + 'px ' + (effect.spread || 0) + 'px ' + hex + ';\n';
+            sectionCSS += declareEntry(entries, styleEntry(style.name, 'shadow', inset + effect.offset.x + 'px ' + effect.offset.y + 'px ' + effect.radius + 'px ' + (effect.spread || 0) + 'px ' + formatColor(hex, opts.colorFormat)));
           }
         }
       }
     }
-    sections.push({ label: 'Effect Styles', css: sectionCSS });
+    sections.push({ label: 'Effect Styles', css: sectionCSS, entries: entries });
   }
 
   // Build full CSS
@@ -1375,19 +2305,556 @@ function generateTailwindCSS(collectionsData: CollectionData[], stylesData: any,
   full += '/* No Dev Mode required! */\n\n';
   full += '@theme {\n';
   for (const section of sections) {
-    full += section.css;
+    if (!section.utility) full += section.css;
   }
   full += '}\n';
+  for (const section of sections) {
+    if (section.utility) full += section.css;
+  }
+  full += buildModeOverrides(modeSections, opts.modeSelector);
 
-  return { full, sections };
+  return { full, sections: sections.concat(modeSections), warnings: warnings };
 }
 
-// ─── Layer to Tailwind ───
+// ─── W3C Design Tokens (DTCG) export ───
 
-// Tailwind spacing scale map (px -> class value)
-const TW_SPACING_MAP: Record<number, string> = {
-  0: '0', 1: 'px', 2: '0.5', 4: '1', 6: '1.5', 8: '2', 10: '2.5', 12: '3',
-  14: '3.5', 16: '4', 20: '5', 24: '6', 28: '7', 32: '8', 36: '9', 40: '10',
+interface DesignToken {
+  $type: string;
+  $value: any;
+  $extensions?: Record<string, any>;
+}
+
+// Top-level DTCG group and $type per CSS category
+const DTCG_CATEGORY_TYPES: Record<string, { group: string; type: string }> = {
+  'color': { group: 'color', type: 'color' },
+  'spacing': { group: 'spacing', type: 'dimension' },
+  'radius': { group: 'radius', type: 'dimension' },
+  'border-width': { group: 'border-width', type: 'dimension' },
+  'text': { group: 'font-size', type: 'dimension' },
+  'leading': { group: 'line-height', type: 'dimension' },
+  'tracking': { group: 'letter-spacing', type: 'dimension' },
+  'font-weight': { group: 'font-weight', type: 'fontWeight' },
+  'opacity': { group: 'opacity', type: 'number' },
+  'font-family': { group: 'font', type: 'fontFamily' },
+};
+
+const EASING_CUBIC_BEZIER: Record<string, number[]> = {
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+  'linear': [0, 0, 1, 1],
+};
+
+// Figma path ("Primary/600") -> token path segments, using the same naming rules as toCSSVariableName
+function toTokenPath(name: string, category?: string): string[] {
+  let segments = applyRenames(name).split('/')
+    .map(s => s.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''))
+    .filter(s => s.length > 0);
+  if (category && namingRules.categoryNoise[category]) {
+    const noise = namingRules.categoryNoise[category];
+    segments = segments.filter(s => noise.indexOf(s) === -1);
+  }
+  while (segments.length > 1 && namingRules.groupNoise.indexOf(segments[0]) !== -1) {
+    segments.shift();
+  }
+  if (segments.length === 0) segments = ['default'];
+  return segments;
+}
+
+// Line heights up to this are ratios (1.5), above it pixels
+const UNITLESS_LINE_HEIGHT_MAX = 3;
+
+function variableTokenInfo(variable: VariableData): { path: string[]; type: string } {
+  const category = variableCategory(variable);
+  if (category && DTCG_CATEGORY_TYPES[category]) {
+    const info = DTCG_CATEGORY_TYPES[category];
+    const unitless = category === 'leading' && typeof variable.variableValue === 'number' && variable.variableValue <= UNITLESS_LINE_HEIGHT_MAX;
+    return { path: [info.group].concat(toTokenPath(variable.name, category)), type: unitless ? 'number' : info.type };
+  }
+  if (variable.resolvedDataType === 'STRING' && /font|family|typeface/i.test(variable.name)) {
+    return { path: ['font'].concat(toTokenPath(variable.name, 'text')), type: 'fontFamily' };
+  }
+  const type = variable.resolvedDataType === 'BOOLEAN' ? 'boolean' : 'string';
+  return { path: [type].concat(toTokenPath(variable.name)), type: type };
+}
+
+// Token paths as dot-joined names, so collisions resolve the way CSS names do (a suffix lands on the last segment)
+const TOKEN_PATH_NAMING: VariableNaming = {
+  category: 'Token Paths',
+  name: v => variableTokenInfo(v).path.join('.'),
+  scoped: v => {
+    const path = variableTokenInfo(v).path;
+    return [path[0], slugify(v.collection)].concat(path.slice(1)).join('.');
+  },
+  fixed: () => false,
+};
+
+function designTokenValue(value: any, type: string): any {
+  if (type === 'color' && value && typeof value === 'object' && 'r' in value) {
+    return rgbaToHex(value.r, value.g, value.b, value.a);
+  }
+  if (type === 'dimension' && typeof value === 'number') {
+    return formatNumberForCss(value) + 'px';
+  }
+  return value;
+}
+
+// Figma letter spacing (percent of the font size, or pixels) -> em; null when zero
+function letterSpacingToEm(letterSpacing: any, fontSize: number): string | null {
+  if (!letterSpacing || typeof letterSpacing !== 'object' || !letterSpacing.value) return null;
+  const em = letterSpacing.unit === 'PERCENT' ? letterSpacing.value / 100 : (fontSize ? letterSpacing.value / fontSize : 0);
+  if (!em) return null;
+  return parseFloat(em.toFixed(3)) + 'em';
+}
+
+function lineHeightToRatio(lineHeight: any, fontSize: number): number | null {
+  if (!lineHeight || typeof lineHeight !== 'object' || !('value' in lineHeight)) return null;
+  if (lineHeight.unit === 'PIXELS' && fontSize) return parseFloat((lineHeight.value / fontSize).toFixed(2));
+  if (lineHeight.unit === 'PERCENT') return parseFloat((lineHeight.value / 100).toFixed(2));
+  return null;
+}
+
+function shadowTokenValue(effect: any): any {
+  const value: any = {
+    color: rgbaToHex(effect.color.r, effect.color.g, effect.color.b, effect.color.a),
+    offsetX: effect.offset.x + 'px',
+    offsetY: effect.offset.y + 'px',
+    blur: effect.radius + 'px',
+    spread: (effect.spread || 0) + 'px',
+  };
+  if (effect.type === 'INNER_SHADOW') value.inset = true;
+  return value;
+}
+
+// Place a token in the nested group tree. A token that also needs children moves to $root.
+function setDesignToken(root: any, path: string[], token: DesignToken) {
+  let group = root;
+  for (let i = 0; i < path.length - 1; i++) {
+    const key = path[i];
+    if (!group[key]) {
+      group[key] = {};
+    } else if ('$value' in group[key]) {
+      group[key] = { $root: group[key] };
+    }
+    group = group[key];
+  }
+  const last = path[path.length - 1];
+  if (group[last] && !('$value' in group[last])) {
+    group[last].$root = token;
+  } else {
+    group[last] = token;
+  }
+}
+
+// Serialize variables, styles and scanned tokens as a DTCG .tokens.json file.
+// The default mode is the $value, other modes that differ from it go to $extensions["com.figma.modes"].
+// Variables whose paths collide are handled like their CSS names (Options → Name Collisions)
+function generateDesignTokens(collectionsData: CollectionData[], stylesData: any, scannedTokens: ScannedTokens | null): { json: string; warnings: LintWarning[] } {
+  const root: any = {};
+
+  const naming = assignVariableNames(collectionsData, cachedOptions.nameCollisions, TOKEN_PATH_NAMING);
+  const pathsById = new Map<string, string[]>();
+  for (const [id, name] of naming.names) pathsById.set(id, name.split('.'));
+
+  for (const collection of collectionsData) {
+    const defaultMode = collection.defaultMode || (collection.modes.length > 0 ? collection.modes[0].name : '');
+    const byId = new Map<string, VariableData[]>();
+    for (const v of collection.variables) {
+      if (!byId.has(v.id)) byId.set(v.id, []);
+      byId.get(v.id)!.push(v);
+    }
+
+    for (const modeValues of byId.values()) {
+      const base = modeValues.find(v => v.mode === defaultMode) || modeValues[0];
+      if (naming.shadowed.has(base.id)) continue;
+      const info = variableTokenInfo(base);
+      // An alias to a left-out token would point at the path's winner, so it keeps its resolved value
+      const valueFor = function(v: VariableData): any {
+        if (v.aliasOf && pathsById.has(v.aliasOf) && !naming.shadowed.has(v.aliasOf)) return '{' + pathsById.get(v.aliasOf)!.join('.') + '}';
+        return designTokenValue(v.variableValue, info.type);
+      };
+      const token: DesignToken = { $type: info.type, $value: valueFor(base) };
+      const modeOverrides: Record<string, any> = {};
+      for (const v of modeValues) {
+        const value = valueFor(v);
+        if (v !== base && JSON.stringify(value) !== JSON.stringify(token.$value)) modeOverrides[v.mode] = value;
+      }
+      if (Object.keys(modeOverrides).length > 0) token.$extensions = { 'com.figma.modes': modeOverrides };
+      setDesignToken(root, pathsById.get(base.id)!, token);
+    }
+  }
+
+  if (stylesData) {
+    for (const style of stylesData.colors || []) {
+      const paint = style.paints[0];
+      if (paint && paint.type === 'SOLID' && paint.color) {
+        const hex = rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity !== undefined ? paint.opacity : 1);
+        setDesignToken(root, ['color'].concat(toTokenPath(style.name, 'color')), { $type: 'color', $value: hex });
+      }
+    }
+
+    for (const style of stylesData.textStyles || []) {
+      const value: any = {
+        fontFamily: style.fontFamily,
+        fontSize: style.fontSize + 'px',
+        fontWeight: fontStyleToWeight(style.fontWeight),
+      };
+      const ratio = lineHeightToRatio(style.lineHeight, style.fontSize);
+      if (ratio !== null) value.lineHeight = ratio;
+      if (style.letterSpacing && style.letterSpacing.value) {
+        value.letterSpacing = style.letterSpacing.unit === 'PERCENT'
+          ? formatNumberForCss(style.letterSpacing.value / 100 * style.fontSize) + 'px'
+          : formatNumberForCss(style.letterSpacing.value) + 'px';
+      }
+      setDesignToken(root, ['typography'].concat(toTokenPath(style.name, 'text')), { $type: 'typography', $value: value });
+    }
+
+    for (const style of stylesData.effects || []) {
+      const shadows = (style.effects || []).filter((e: any) => e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW');
+      if (shadows.length === 0) continue;
+      const value = shadows.length === 1 ? shadowTokenValue(shadows[0]) : shadows.map(shadowTokenValue);
+      setDesignToken(root, ['shadow'].concat(toTokenPath(style.name, 'shadow')), { $type: 'shadow', $value: value });
+    }
+  }
+
+  if (scannedTokens) {
+    const { semantic, palette } = classifyColorsForTailwind(scannedTokens.colors);
+    for (const c of semantic) {
+      setDesignToken(root, ['color', c.name], { $type: 'color', $value: c.hex });
+    }
+    for (const c of palette) {
+      setDesignToken(root, ['color'].concat(c.name.split('-')), { $type: 'color', $value: c.hex });
+    }
+
+    const families = new Set(scannedTokens.typography.map(t => t.fontFamily));
+    for (const family of families) {
+      const slug = family.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      setDesignToken(root, ['font', slug], { $type: 'fontFamily', $value: family });
+    }
+
+    const fontSizes = [...new Set(scannedTokens.typography.map(t => t.fontSize))].sort((a, b) => a - b);
+    const roles = getTypoRoles(fontSizes.length).reverse();
+    for (let i = 0; i < fontSizes.length; i++) {
+      setDesignToken(root, ['font-size', roles[i]], { $type: 'dimension', $value: fontSizes[i] + 'px' });
+    }
+
+    const weights = [...new Set(scannedTokens.typography.map(t => fontStyleToWeight(t.fontStyle)))].sort((a, b) => a - b);
+    for (const w of weights) {
+      setDesignToken(root, ['font-weight', String(w)], { $type: 'fontWeight', $value: w });
+    }
+
+    const lineHeights = [...new Set(scannedTokens.typography.filter(t => t.lineHeight !== null).map(t => t.lineHeight!))];
+    const leadingLabels = getSizeLabels(lineHeights.length);
+    for (let i = 0; i < lineHeights.length; i++) {
+      setDesignToken(root, ['line-height', leadingLabels[i]], { $type: 'number', $value: lineHeights[i] });
+    }
+
+    const spacingLabels = getSizeLabels(scannedTokens.spacing.length);
+    for (let i = 0; i < scannedTokens.spacing.length; i++) {
+      setDesignToken(root, ['spacing', spacingLabels[i]], { $type: 'dimension', $value: scannedTokens.spacing[i] + 'px' });
+    }
+
+    const radiusLabels = getSizeLabels(scannedTokens.radii.length);
+    for (let i = 0; i < scannedTokens.radii.length; i++) {
+      setDesignToken(root, ['radius', radiusLabels[i]], { $type: 'dimension', $value: scannedTokens.radii[i] + 'px' });
+    }
+
+    const shadowLabels = getSizeLabels(scannedTokens.shadows.length);
+    for (let i = 0; i < scannedTokens.shadows.length; i++) {
+      const s = scannedTokens.shadows[i];
+      const value: any = {
+        color: s.color,
+        offsetX: s.offsetX + 'px',
+        offsetY: s.offsetY + 'px',
+        blur: s.blur + 'px',
+        spread: s.spread + 'px',
+      };
+      if (s.type === 'inset') value.inset = true;
+      setDesignToken(root, ['shadow', shadowLabels[i]], { $type: 'shadow', $value: value });
+    }
+
+    for (let i = 0; i < scannedTokens.gradients.length; i++) {
+      const stops = scannedTokens.gradients[i].stops.map(s => ({ color: s.color, position: s.position / 100 }));
+      setDesignToken(root, ['gradient', String(i + 1)], { $type: 'gradient', $value: stops });
+    }
+
+    for (const anim of scannedTokens.animations) {
+      const ms = snapDuration(anim.duration);
+      setDesignToken(root, ['duration', String(ms)], { $type: 'duration', $value: ms + 'ms' });
+      const easing = easingToCSS(anim.easing);
+      setDesignToken(root, ['easing', easing], { $type: 'cubicBezier', $value: EASING_CUBIC_BEZIER[easing] });
+    }
+  }
+
+  return { json: JSON.stringify(root, null, 2) + '\n', warnings: naming.warnings };
+}
+
+// ─── Alternative output formats ───
+
+// Entries of the default-mode @theme sections, in output order
+function themeEntries(output: CSSOutput): ThemeEntry[] {
+  const entries: ThemeEntry[] = [];
+  for (const section of output.sections) {
+    if (section.mode || !section.entries) continue;
+    for (const entry of section.entries) entries.push(entry);
+  }
+  return entries;
+}
+
+// Value an entry ends up with once its alias chain is followed, for formats without CSS variables
+function resolvedEntryValue(entry: ThemeEntry, byName: Map<string, ThemeEntry>): string {
+  let current = entry;
+  for (let depth = 0; current.ref && byName.has(current.ref) && depth <= 10; depth++) {
+    current = byName.get(current.ref)!;
+  }
+  return current.value;
+}
+
+function toJSKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : toJSString(key);
+}
+
+function toJSString(value: string): string {
+  return "'" + value.replace(/\\/g, '\\\\').replace(/'/g, "\\'") + "'";
+}
+
+// v4 variable namespaces and their names in the other output formats, longest first
+const THEME_NAMESPACES: { namespace: string; tw3: string; map: string; tsName: string; tsType: string }[] = [
+  { namespace: 'font-weight', tw3: 'fontWeight', map: 'font-weights', tsName: 'fontWeights', tsType: 'FontWeightToken' },
+  { namespace: 'font-family', tw3: 'fontFamily', map: 'font-families', tsName: 'fontFamilies', tsType: 'FontFamilyToken' },
+  { namespace: 'font', tw3: 'fontFamily', map: 'font-families', tsName: 'fontFamilies', tsType: 'FontFamilyToken' },
+  { namespace: 'color', tw3: 'colors', map: 'colors', tsName: 'colors', tsType: 'ColorToken' },
+  { namespace: 'text', tw3: 'fontSize', map: 'font-sizes', tsName: 'fontSizes', tsType: 'FontSizeToken' },
+  { namespace: 'leading', tw3: 'lineHeight', map: 'line-heights', tsName: 'lineHeights', tsType: 'LineHeightToken' },
+  { namespace: 'border-width', tw3: 'borderWidth', map: 'border-widths', tsName: 'borderWidths', tsType: 'BorderWidthToken' },
+  { namespace: 'opacity', tw3: 'opacity', map: 'opacities', tsName: 'opacities', tsType: 'OpacityToken' },
+  { namespace: 'tracking', tw3: 'letterSpacing', map: 'letter-spacings', tsName: 'letterSpacings', tsType: 'LetterSpacingToken' },
+  { namespace: 'spacing', tw3: 'spacing', map: 'spacing', tsName: 'spacing', tsType: 'SpacingToken' },
+  { namespace: 'radius', tw3: 'borderRadius', map: 'radii', tsName: 'radii', tsType: 'RadiusToken' },
+  { namespace: 'shadow', tw3: 'boxShadow', map: 'shadows', tsName: 'shadows', tsType: 'ShadowToken' },
+  { namespace: 'gradient', tw3: 'backgroundImage', map: 'gradients', tsName: 'gradients', tsType: 'GradientToken' },
+  { namespace: 'duration', tw3: 'transitionDuration', map: 'durations', tsName: 'durations', tsType: 'DurationToken' },
+  { namespace: 'ease', tw3: 'transitionTimingFunction', map: 'easings', tsName: 'easings', tsType: 'EasingToken' },
+];
+
+// Output-format names for an entry; companions (--text-h1--line-height) belong to their base token, not a namespace of their own
+function entryMapping(entry: ThemeEntry) {
+  if (entry.companion) return null;
+  return THEME_NAMESPACES.find(ns => ns.namespace === entry.namespace) || null;
+}
+
+// Re-render a generated @theme output as a Tailwind v3 tailwind.config.ts (theme.extend), from its entries
+function generateTailwindConfig(output: CSSOutput): CSSOutput {
+  const modeNames = new Set<string>();
+  let skippedUtilities = false;
+  for (const section of output.sections) {
+    if (section.mode) modeNames.add(section.mode);
+    if (section.utility) skippedUtilities = true;
+  }
+  const entries = themeEntries(output);
+  const byName = new Map<string, ThemeEntry>();
+  const byKey = new Map<string, ThemeEntry>();
+  for (const entry of entries) {
+    byName.set(entry.name, entry);
+    byKey.set(entry.namespace + ':' + entry.key + (entry.companion ? ':' + entry.companion : ''), entry);
+  }
+  const valueOf = (namespace: string, key: string, companion?: string): string | undefined => {
+    const entry = byKey.get(namespace + ':' + key + (companion ? ':' + companion : ''));
+    return entry ? resolvedEntryValue(entry, byName) : undefined;
+  };
+
+  // Group entries by theme key, keeping first-seen order
+  const groups = new Map<string, Map<string, string>>();
+  for (const token of entries) {
+    const mapping = entryMapping(token);
+    if (!mapping) continue;
+    const name = token.key;
+    const value = resolvedEntryValue(token, byName);
+    let entry: string;
+    if (mapping.tw3 === 'fontSize') {
+      // [size, { lineHeight, fontWeight, letterSpacing }] from companions, or the matching --leading-*
+      const extras: string[] = [];
+      const leading = valueOf('text', name, 'line-height') || valueOf('leading', name);
+      if (leading !== undefined) extras.push('lineHeight: ' + toJSString(leading));
+      const weight = valueOf('text', name, 'font-weight');
+      if (weight !== undefined) extras.push('fontWeight: ' + toJSString(weight));
+      const tracking = valueOf('text', name, 'letter-spacing');
+      if (tracking !== undefined) extras.push('letterSpacing: ' + toJSString(tracking));
+      entry = extras.length > 0
+        ? '[' + toJSString(value) + ', { ' + extras.join(', ') + ' }]'
+        : toJSString(value);
+    } else if (mapping.tw3 === 'fontFamily') {
+      const stack = value.split(',').map(f => toJSString(f.trim().replace(/^["']|["']$/g, '')));
+      entry = '[' + stack.join(', ') + ']';
+    } else {
+      entry = toJSString(value);
+    }
+    if (!groups.has(mapping.tw3)) groups.set(mapping.tw3, new Map<string, string>());
+    groups.get(mapping.tw3)!.set(name, entry);
+  }
+
+  const sections: CSSSection[] = [];
+  for (const [key, entries] of groups) {
+    let css = '      ' + key + ': {\n';
+    for (const [name, entry] of entries) {
+      css += '        ' + toJSKey(name) + ': ' + entry + ',\n';
+    }
+    css += '      },\n';
+    sections.push({ label: key, css: css });
+  }
+
+  let full = "import type { Config } from 'tailwindcss'\n\n";
+  full += '// Generated by Figma to Tailwind Plugin (Tailwind v3 theme)\n';
+  if (modeNames.size > 0) {
+    full += '// Modes not included: ' + Array.from(modeNames).join(', ') + ' (a v3 config holds one value per token)\n';
+  }
+  if (skippedUtilities) {
+    full += '// @utility text styles not included: use Text Styles → Companion Variables for fontSize tuples\n';
+  }
+  full += '\nexport default {\n  theme: {\n    extend: {\n';
+  for (const section of sections) {
+    full += section.css;
+  }
+  full += '    },\n  },\n} satisfies Partial<Config>\n';
+
+  return { full, sections };
+}
+
+// Re-render a generated @theme output as SCSS or Less variables, grouped maps
+// and a $themes map holding the mode overrides, from its entries
+function generatePreprocessorOutput(output: CSSOutput, syntax: 'scss' | 'less'): CSSOutput {
+  const sigil = syntax === 'scss' ? '$' : '@';
+  const byName = new Map<string, ThemeEntry>();
+  for (const entry of themeEntries(output)) byName.set(entry.name, entry);
+
+  // An alias becomes $target once declared, otherwise the value it resolves to
+  const declared = new Set<string>();
+  const toValue = function(value: string, ref?: string): string {
+    if (!ref) return value;
+    if (declared.has(ref)) return sigil + ref.slice(2);
+    return byName.has(ref) ? resolvedEntryValue(byName.get(ref)!, byName) : value;
+  };
+  // Less keys are property names: ones that aren't identifiers ("500", "1/2") are CSS-escaped
+  const mapKey = function(key: string): string {
+    if (syntax === 'scss') return "'" + key + "'";
+    if (/^-?[A-Za-z_][\w-]*$/.test(key)) return key;
+    return key.replace(/^([0-9])/, '\\3$1 ').replace(/[^\w\s\\-]/g, '\\$&');
+  };
+  const entrySep = syntax === 'scss' ? ',' : ';';
+
+  const sections: CSSSection[] = [];
+  const modeSections: CSSSection[] = [];
+  const maps = new Map<string, string[]>();
+
+  for (const section of output.sections) {
+    if (section.utility) {
+      // @utility text-h1 { ... } -> SCSS mixin / Less mixin
+      let mixins = '';
+      for (const utility of section.utilities || []) {
+        mixins += syntax === 'scss' ? '\n@mixin ' + utility.name + ' {\n' : '\n.' + utility.name + '() {\n';
+        for (const decl of utility.declarations) mixins += '  ' + decl.property + ': ' + toValue(decl.value, decl.ref) + ';\n';
+        mixins += '}\n';
+      }
+      sections.push({ label: section.label, css: mixins });
+      continue;
+    }
+    if (!section.entries || section.entries.length === 0) continue;
+    const indent = section.mode ? '    ' : '';
+    let css = '\n' + indent + '// ' + (section.heading || section.label) + '\n';
+    for (const entry of section.entries) {
+      if (section.mode) {
+        css += indent + mapKey(entry.name.slice(2)) + ': ' + toValue(entry.value, entry.ref) + entrySep + '\n';
+        continue;
+      }
+      css += sigil + entry.name.slice(2) + ': ' + toValue(entry.value, entry.ref) + ';\n';
+      declared.add(entry.name);
+      const mapping = entryMapping(entry);
+      if (mapping) {
+        if (!maps.has(mapping.map)) maps.set(mapping.map, []);
+        maps.get(mapping.map)!.push('  ' + mapKey(entry.key) + ': ' + sigil + entry.name.slice(2) + entrySep + '\n');
+      }
+    }
+    if (section.mode) {
+      modeSections.push({ label: section.label, css: css, mode: section.mode });
+    } else {
+      sections.push({ label: section.label, css: css });
+    }
+  }
+
+  let mapsCSS = '';
+  for (const [name, entries] of maps) {
+    mapsCSS += syntax === 'scss'
+      ? '\n$' + name + ': (\n' + entries.join('') + ');\n'
+      : '\n@' + name + ': {\n' + entries.join('') + '}\n';
+  }
+  if (mapsCSS) sections.push({ label: 'Maps', css: mapsCSS });
+
+  let full = '// Generated by Figma to Tailwind Plugin (' + (syntax === 'scss' ? 'SCSS' : 'Less') + ')\n';
+  for (const section of sections) {
+    full += section.css;
+  }
+
+  // Mode overrides: one nested map per mode name
+  const modeBodies = new Map<string, string>();
+  for (const section of modeSections) {
+    modeBodies.set(section.mode!, (modeBodies.get(section.mode!) || '') + section.css);
+  }
+  if (modeBodies.size > 0) {
+    full += syntax === 'scss' ? '\n$themes: (\n' : '\n@themes: {\n';
+    for (const [modeName, body] of modeBodies) {
+      full += syntax === 'scss'
+        ? '  ' + mapKey(modeSlug(modeName)) + ': (' + body + '  ),\n'
+        : '  ' + modeSlug(modeName) + ': {' + body + '  }\n';
+    }
+    full += syntax === 'scss' ? ');\n' : '}\n';
+  }
+
+  return { full, sections: sections.concat(modeSections) };
+}
+
+// Build a typed tokens.ts module from the entries of a generated @theme output: one `as const`
+// object per category plus a union type of its token names
+function generateTokensModule(output: CSSOutput): string {
+  const entries = themeEntries(output);
+  const byName = new Map<string, ThemeEntry>();
+  for (const entry of entries) byName.set(entry.name, entry);
+
+  const groups = new Map<string, { type: string; entries: Map<string, string> }>();
+  for (const entry of entries) {
+    const ns = entryMapping(entry);
+    if (!ns) continue;
+    if (!groups.has(ns.tsName)) groups.set(ns.tsName, { type: ns.tsType, entries: new Map<string, string>() });
+    groups.get(ns.tsName)!.entries.set(entry.key, resolvedEntryValue(entry, byName));
+  }
+
+  let ts = '// Generated by Figma to Tailwind Plugin\n';
+  for (const [name, group] of groups) {
+    ts += '\nexport const ' + name + ' = {\n';
+    for (const [key, value] of group.entries) {
+      ts += '  ' + toJSKey(key) + ': ' + toJSString(value) + ',\n';
+    }
+    ts += '} as const\n\n';
+    ts += 'export type ' + group.type + ' = ' + Array.from(group.entries.keys()).map(toJSString).join(' | ') + '\n';
+  }
+  if (groups.size > 0) {
+    ts += '\nexport const tokens = { ' + Array.from(groups.keys()).join(', ') + ' } as const\n';
+  }
+  return ts;
+}
+
+// Apply the selected output format to a generated @theme output
+function renderOutputFormat(output: CSSOutput, opts: GenerateOptions): CSSOutput {
+  if (opts.outputFormat === 'tailwind-v3') return generateTailwindConfig(output);
+  if (opts.outputFormat === 'scss' || opts.outputFormat === 'less') return generatePreprocessorOutput(output, opts.outputFormat);
+  return output;
+}
+
+// ─── Layer to Tailwind ───
+
+// Tailwind spacing scale map (px -> class value)
+const TW_SPACING_MAP: Record<number, string> = {
+  0: '0', 1: 'px', 2: '0.5', 4: '1', 6: '1.5', 8: '2', 10: '2.5', 12: '3',
+  14: '3.5', 16: '4', 20: '5', 24: '6', 28: '7', 32: '8', 36: '9', 40: '10',
   44: '11', 48: '12', 56: '14', 64: '16', 80: '20', 96: '24', 112: '28',
   128: '32', 144: '36', 160: '40', 176: '44', 192: '48', 208: '52', 224: '56',
   240: '60', 256: '64', 288: '72', 320: '80', 384: '96',
@@ -1405,39 +2872,181 @@ function pxToTailwindSpacing(px: number): string {
   return `[${px}px]`;
 }
 
-// Tailwind default color palette for matching
-const TW_COLORS: Record<string, string> = {
-  '#000000': 'black', '#ffffff': 'white',
-  '#f8fafc': 'slate-50', '#f1f5f9': 'slate-100', '#e2e8f0': 'slate-200', '#cbd5e1': 'slate-300',
-  '#94a3b8': 'slate-400', '#64748b': 'slate-500', '#475569': 'slate-600', '#334155': 'slate-700',
-  '#1e293b': 'slate-800', '#0f172a': 'slate-900', '#020617': 'slate-950',
-  '#fef2f2': 'red-50', '#fee2e2': 'red-100', '#fecaca': 'red-200', '#fca5a5': 'red-300',
-  '#f87171': 'red-400', '#ef4444': 'red-500', '#dc2626': 'red-600', '#b91c1c': 'red-700',
-  '#991b1b': 'red-800', '#7f1d1d': 'red-900',
-  '#eff6ff': 'blue-50', '#dbeafe': 'blue-100', '#bfdbfe': 'blue-200', '#93c5fd': 'blue-300',
-  '#60a5fa': 'blue-400', '#3b82f6': 'blue-500', '#2563eb': 'blue-600', '#1d4ed8': 'blue-700',
-  '#1e40af': 'blue-800', '#1e3a8a': 'blue-900',
-  '#f0fdf4': 'green-50', '#dcfce7': 'green-100', '#bbf7d0': 'green-200', '#86efac': 'green-300',
-  '#4ade80': 'green-400', '#22c55e': 'green-500', '#16a34a': 'green-600', '#15803d': 'green-700',
-  '#166534': 'green-800', '#14532d': 'green-900',
-  '#fefce8': 'yellow-50', '#fef9c3': 'yellow-100', '#fef08a': 'yellow-200', '#fde047': 'yellow-300',
-  '#facc15': 'yellow-400', '#eab308': 'yellow-500', '#ca8a04': 'yellow-600', '#a16207': 'yellow-700',
-  '#854d0e': 'yellow-800', '#713f12': 'yellow-900',
-  '#f5f3ff': 'violet-50', '#ede9fe': 'violet-100', '#ddd6fe': 'violet-200', '#c4b5fd': 'violet-300',
-  '#a78bfa': 'violet-400', '#8b5cf6': 'violet-500', '#7c3aed': 'violet-600', '#6d28d9': 'violet-700',
-  '#5b21b6': 'violet-800', '#4c1d95': 'violet-900',
+// Tailwind v4 default palette (theme.css), as OKLCH "L% C H" for steps 50–950
+const TW_PALETTE: Record<string, string[]> = {
+  slate: ['98.4% 0.003 247.858', '96.8% 0.007 247.896', '92.9% 0.013 255.508', '86.9% 0.022 252.894', '70.4% 0.04 256.788', '55.4% 0.046 257.417', '44.6% 0.043 257.281', '37.2% 0.044 257.287', '27.9% 0.041 260.031', '20.8% 0.042 265.755', '12.9% 0.042 264.695'],
+  gray: ['98.5% 0.002 247.839', '96.7% 0.003 264.542', '92.8% 0.006 264.531', '87.2% 0.01 258.338', '70.7% 0.022 261.325', '55.1% 0.027 264.364', '44.6% 0.03 256.802', '37.3% 0.034 259.733', '27.8% 0.033 256.848', '21% 0.034 264.665', '13% 0.028 261.692'],
+  zinc: ['98.5% 0 none', '96.7% 0.001 286.375', '92% 0.004 286.32', '87.1% 0.006 286.286', '70.5% 0.015 286.067', '55.2% 0.016 285.938', '44.2% 0.017 285.786', '37% 0.013 285.805', '27.4% 0.006 286.033', '21% 0.006 285.885', '14.1% 0.005 285.823'],
+  neutral: ['98.5% 0 none', '97% 0 none', '92.2% 0 none', '87% 0 none', '70.8% 0 none', '55.6% 0 none', '43.9% 0 none', '37.1% 0 none', '26.9% 0 none', '20.5% 0 none', '14.5% 0 none'],
+  stone: ['98.5% 0.001 106.423', '97% 0.001 106.424', '92.3% 0.003 48.717', '86.9% 0.005 56.366', '70.9% 0.01 56.259', '55.3% 0.013 58.071', '44.4% 0.011 73.639', '37.4% 0.01 67.558', '26.8% 0.007 34.298', '21.6% 0.006 56.043', '14.7% 0.004 49.25'],
+  red: ['97.1% 0.013 17.38', '93.6% 0.032 17.717', '88.5% 0.062 18.334', '80.8% 0.114 19.571', '70.4% 0.191 22.216', '63.7% 0.237 25.331', '57.7% 0.245 27.325', '50.5% 0.213 27.518', '44.4% 0.177 26.899', '39.6% 0.141 25.723', '25.8% 0.092 26.042'],
+  orange: ['98% 0.016 73.684', '95.4% 0.038 75.164', '90.1% 0.076 70.697', '83.7% 0.128 66.29', '75% 0.183 55.934', '70.5% 0.213 47.604', '64.6% 0.222 41.116', '55.3% 0.195 38.402', '47% 0.157 37.304', '40.8% 0.123 38.172', '26.6% 0.079 36.259'],
+  amber: ['98.7% 0.022 95.277', '96.2% 0.059 95.617', '92.4% 0.12 95.746', '87.9% 0.169 91.605', '82.8% 0.189 84.429', '76.9% 0.188 70.08', '66.6% 0.179 58.318', '55.5% 0.163 48.998', '47.3% 0.137 46.201', '41.4% 0.112 45.904', '27.9% 0.077 45.635'],
+  yellow: ['98.7% 0.026 102.212', '97.3% 0.071 103.193', '94.5% 0.129 101.54', '90.5% 0.182 98.111', '85.2% 0.199 91.936', '79.5% 0.184 86.047', '68.1% 0.162 75.834', '55.4% 0.135 66.442', '47.6% 0.114 61.907', '42.1% 0.095 57.708', '28.6% 0.066 53.813'],
+  lime: ['98.6% 0.031 120.757', '96.7% 0.067 122.328', '93.8% 0.127 124.321', '89.7% 0.196 126.665', '84.1% 0.238 128.85', '76.8% 0.233 130.85', '64.8% 0.2 131.684', '53.2% 0.157 131.589', '45.3% 0.124 130.933', '40.5% 0.101 131.063', '27.4% 0.072 132.109'],
+  green: ['98.2% 0.018 155.826', '96.2% 0.044 156.743', '92.5% 0.084 155.995', '87.1% 0.15 154.449', '79.2% 0.209 151.711', '72.3% 0.219 149.579', '62.7% 0.194 149.214', '52.7% 0.154 150.069', '44.8% 0.119 151.328', '39.3% 0.095 152.535', '26.6% 0.065 152.934'],
+  emerald: ['97.9% 0.021 166.113', '95% 0.052 163.051', '90.5% 0.093 164.15', '84.5% 0.143 164.978', '76.5% 0.177 163.223', '69.6% 0.17 162.48', '59.6% 0.145 163.225', '50.8% 0.118 165.612', '43.2% 0.095 166.913', '37.8% 0.077 168.94', '26.2% 0.051 172.552'],
+  teal: ['98.4% 0.014 180.72', '95.3% 0.051 180.801', '91% 0.096 180.426', '85.5% 0.138 181.071', '77.7% 0.152 181.912', '70.4% 0.14 182.503', '60% 0.118 184.704', '51.1% 0.096 186.391', '43.7% 0.078 188.216', '38.6% 0.063 188.416', '27.7% 0.046 192.524'],
+  cyan: ['98.4% 0.019 200.873', '95.6% 0.045 203.388', '91.7% 0.08 205.041', '86.5% 0.127 207.078', '78.9% 0.154 211.53', '71.5% 0.143 215.221', '60.9% 0.126 221.723', '52% 0.105 223.128', '45% 0.085 224.283', '39.8% 0.07 227.392', '30.2% 0.056 229.695'],
+  sky: ['97.7% 0.013 236.62', '95.1% 0.026 236.824', '90.1% 0.058 230.902', '82.8% 0.111 230.318', '74.6% 0.16 232.661', '68.5% 0.169 237.323', '58.8% 0.158 241.966', '50% 0.134 242.749', '44.3% 0.11 240.79', '39.1% 0.09 240.876', '29.3% 0.066 243.157'],
+  blue: ['97% 0.014 254.604', '93.2% 0.032 255.585', '88.2% 0.059 254.128', '80.9% 0.105 251.813', '70.7% 0.165 254.624', '62.3% 0.214 259.815', '54.6% 0.245 262.881', '48.8% 0.243 264.376', '42.4% 0.199 265.638', '37.9% 0.146 265.522', '28.2% 0.091 267.935'],
+  indigo: ['96.2% 0.018 272.314', '93% 0.034 272.788', '87% 0.065 274.039', '78.5% 0.115 274.713', '67.3% 0.182 276.935', '58.5% 0.233 277.117', '51.1% 0.262 276.966', '45.7% 0.24 277.023', '39.8% 0.195 277.366', '35.9% 0.144 278.697', '25.7% 0.09 281.288'],
+  violet: ['96.9% 0.016 293.756', '94.3% 0.029 294.588', '89.4% 0.057 293.283', '81.1% 0.111 293.571', '70.2% 0.183 293.541', '60.6% 0.25 292.717', '54.1% 0.281 293.009', '49.1% 0.27 292.581', '43.2% 0.232 292.759', '38% 0.189 293.745', '28.3% 0.141 291.089'],
+  purple: ['97.7% 0.014 308.299', '94.6% 0.033 307.174', '90.2% 0.063 306.703', '82.7% 0.119 306.383', '71.4% 0.203 305.504', '62.7% 0.265 303.9', '55.8% 0.288 302.321', '49.6% 0.265 301.924', '43.8% 0.218 303.724', '38.1% 0.176 304.987', '29.1% 0.149 302.717'],
+  fuchsia: ['97.7% 0.017 320.058', '95.2% 0.037 318.852', '90.3% 0.076 319.62', '83.3% 0.145 321.434', '74% 0.238 322.16', '66.7% 0.295 322.15', '59.1% 0.293 322.896', '51.8% 0.253 323.949', '45.2% 0.211 324.591', '40.1% 0.17 325.612', '29.3% 0.136 325.661'],
+  pink: ['97.1% 0.014 343.198', '94.8% 0.028 342.258', '89.9% 0.061 343.231', '82.3% 0.12 346.018', '71.8% 0.202 349.761', '65.6% 0.241 354.308', '59.2% 0.249 0.584', '52.5% 0.223 3.958', '45.9% 0.187 3.815', '40.8% 0.153 2.432', '28.4% 0.109 3.907'],
+  rose: ['96.9% 0.015 12.422', '94.1% 0.03 12.58', '89.2% 0.058 10.001', '81% 0.117 11.638', '71.2% 0.194 13.428', '64.5% 0.246 16.439', '58.6% 0.253 17.585', '51.4% 0.222 16.935', '45.5% 0.188 13.697', '41% 0.159 10.272', '27.1% 0.105 12.094'],
 };
 
-function hexToTailwindColor(hex: string, extractedColors?: Map<string, string>): string {
+// OKLab (x100, so the CIEDE2000 weights see CIELAB-sized numbers) for every palette color, built on first use
+let twPaletteLab: { name: string; L: number; a: number; b: number }[] | null = null;
+
+function tailwindPaletteLab(): { name: string; L: number; a: number; b: number }[] {
+  if (twPaletteLab) return twPaletteLab;
+  twPaletteLab = [
+    { name: 'black', L: 0, a: 0, b: 0 },
+    { name: 'white', L: 100, a: 0, b: 0 }
+  ];
+  for (const family of Object.keys(TW_PALETTE)) {
+    TW_PALETTE[family].forEach(function(value, i) {
+      const parts = value.split(' ');
+      const c = parseFloat(parts[1]);
+      const h = (parseFloat(parts[2]) || 0) * Math.PI / 180; // "none" hue on neutral grays
+      twPaletteLab!.push({
+        name: family + '-' + RAMP_STEPS[i],
+        L: parseFloat(parts[0]),
+        a: c * Math.cos(h) * 100,
+        b: c * Math.sin(h) * 100
+      });
+    });
+  }
+  return twPaletteLab;
+}
+
+function hexToScaledOklab(hex: string): { L: number; a: number; b: number } {
+  const raw = hex.replace('#', '').substring(0, 6);
+  const lab = linearRgbToOklab(
+    srgbToLinear(parseInt(raw.substring(0, 2), 16) / 255),
+    srgbToLinear(parseInt(raw.substring(2, 4), 16) / 255),
+    srgbToLinear(parseInt(raw.substring(4, 6), 16) / 255)
+  );
+  return { L: lab.L * 100, a: lab.a * 100, b: lab.b * 100 };
+}
+
+// CIEDE2000 color difference. ~1 is a just-noticeable difference
+function deltaE2000(x: { L: number; a: number; b: number }, y: { L: number; a: number; b: number }): number {
+  const rad = Math.PI / 180;
+  const pow7 = (v: number) => Math.pow(v, 7);
+  const cBar = (Math.sqrt(x.a * x.a + x.b * x.b) + Math.sqrt(y.a * y.a + y.b * y.b)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(pow7(cBar) / (pow7(cBar) + pow7(25))));
+  const a1 = (1 + g) * x.a;
+  const a2 = (1 + g) * y.a;
+  const c1 = Math.sqrt(a1 * a1 + x.b * x.b);
+  const c2 = Math.sqrt(a2 * a2 + y.b * y.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1 = hue(x.b, a1);
+  const h2 = hue(y.b, a2);
+
+  const dL = y.L - x.L;
+  const dC = c2 - c1;
+  let dh = 0;
+  if (c1 * c2 !== 0) {
+    dh = h2 - h1;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1 * c2) * Math.sin(dh * rad / 2);
+
+  const lBar = (x.L + y.L) / 2;
+  const cBarPrime = (c1 + c2) / 2;
+  let hBar = h1 + h2;
+  if (c1 * c2 !== 0) {
+    if (Math.abs(h1 - h2) <= 180) hBar = (h1 + h2) / 2;
+    else hBar = h1 + h2 < 360 ? (h1 + h2 + 360) / 2 : (h1 + h2 - 360) / 2;
+  }
+  const t = 1 - 0.17 * Math.cos((hBar - 30) * rad) + 0.24 * Math.cos(2 * hBar * rad) +
+    0.32 * Math.cos((3 * hBar + 6) * rad) - 0.20 * Math.cos((4 * hBar - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((hBar - 275) / 25, 2));
+  const rc = 2 * Math.sqrt(pow7(cBarPrime) / (pow7(cBarPrime) + pow7(25)));
+  const sl = 1 + 0.015 * Math.pow(lBar - 50, 2) / Math.sqrt(20 + Math.pow(lBar - 50, 2));
+  const sc = 1 + 0.045 * cBarPrime;
+  const sh = 1 + 0.015 * cBarPrime * t;
+  const rt = -Math.sin(2 * dTheta * rad) * rc;
+  return Math.sqrt(
+    Math.pow(dL / sl, 2) + Math.pow(dC / sc, 2) + Math.pow(dH / sh, 2) + rt * (dC / sc) * (dH / sh)
+  );
+}
+
+function nearestTailwindColor(hex: string): { name: string; deltaE: number } {
+  const lab = hexToScaledOklab(hex);
+  let best = { name: '', deltaE: Infinity };
+  for (const entry of tailwindPaletteLab()) {
+    const d = deltaE2000(lab, entry);
+    if (d < best.deltaE) best = { name: entry.name, deltaE: d };
+  }
+  return best;
+}
+
+// sRGB hex -> palette name, built on first use. Out-of-gamut palette colors are listed both clipped and
+// chroma-reduced, since design tools convert them either way
+let twPaletteHex: Map<string, string> | null = null;
+
+function tailwindPaletteHex(): Map<string, string> {
+  if (twPaletteHex) return twPaletteHex;
+  twPaletteHex = new Map([['#000000', 'black'], ['#ffffff', 'white']]);
+  // Neutral goes first: its steps are pure grays, so a gray another family shares (zinc-50) keeps the neutral name
+  const families = ['neutral'].concat(Object.keys(TW_PALETTE).filter(family => family !== 'neutral'));
+  for (const family of families) {
+    TW_PALETTE[family].forEach(function(value, i) {
+      const parts = value.split(' ');
+      const color: Oklch = { l: parseFloat(parts[0]) / 100, c: parseFloat(parts[1]), h: parseFloat(parts[2]) || 0 };
+      const rgb = oklchToLinearRgb(color);
+      const clip = (v: number) => linearToSrgb(Math.min(1, Math.max(0, v)));
+      for (const hex of [oklchToHex(color), rgbaToHex(clip(rgb.r), clip(rgb.g), clip(rgb.b))]) {
+        if (!twPaletteHex!.has(hex)) twPaletteHex!.set(hex, family + '-' + RAMP_STEPS[i]);
+      }
+    });
+  }
+  return twPaletteHex;
+}
+
+// Colors moved onto the palette during the current layer generation (reset per run, sent with the result)
+let paletteSnaps = new Map<string, { name: string; deltaE: number }>();
+
+// Palette name for a color, e.g. "blue-500" or "blue-500/50"; null when it is no palette color and the nearest one
+// is further than the tolerance (ΔE 2000). Tolerance 0 only maps exact palette colors; every other match is a snap
+function tailwindPaletteName(hex: string, tolerance: number): string | null {
+  const raw = hex.replace('#', '').toLowerCase();
+  let name = tailwindPaletteHex().get('#' + raw.substring(0, 6));
+  if (!name) {
+    if (tolerance <= 0) return null;
+    const match = nearestTailwindColor(hex);
+    if (match.deltaE > tolerance) return null;
+    paletteSnaps.set('#' + raw, match);
+    name = match.name;
+  }
+  if (raw.length === 8) {
+    // Translucent colors keep their alpha as an opacity modifier
+    return name + '/' + Math.round(parseInt(raw.substring(6, 8), 16) / 255 * 100);
+  }
+  return name;
+}
+
+function hexToTailwindColor(hex: string, options: GenerateOptions, extractedColors?: Map<string, string>): string {
   const lower = hex.toLowerCase();
   // Check extracted theme colors first
   if (extractedColors && extractedColors.has(lower)) {
     return extractedColors.get(lower)!;
   }
   // Check TW defaults
-  if (TW_COLORS[lower]) return TW_COLORS[lower];
+  const paletteName = tailwindPaletteName(lower, options.paletteTolerance);
+  if (paletteName) return paletteName;
   // Arbitrary
-  return `[${hex}]`;
+  return `[${formatArbitraryColor(hex, options.colorFormat)}]`;
 }
 
 // ─── TokenRegistry for CSS variable mode ───
@@ -1460,6 +3069,7 @@ interface TokenRegistry {
   radii: Map<number, string>;       // px -> var name (e.g. "md")
   shadows: Map<string, string>;     // shadow-key -> var name
   gradients: Map<string, GradientData>; // gradient-key -> gradient data
+  paletteColors: Set<string>;       // hexes named after the default palette
 }
 
 function createTokenRegistry(): TokenRegistry {
@@ -1470,13 +3080,18 @@ function createTokenRegistry(): TokenRegistry {
     radii: new Map(),
     shadows: new Map(),
     gradients: new Map(),
+    paletteColors: new Set(),
   };
 }
 
 // Register a color, returns the Tailwind-friendly name (without prefix)
-function registerColor(registry: TokenRegistry, hex: string, extractedColors?: Map<string, string>): string {
+function registerColor(registry: TokenRegistry, hex: string, options: GenerateOptions, extractedColors?: Map<string, string>): string {
   const lower = hex.toLowerCase();
-  if (registry.colors.has(lower)) return registry.colors.get(lower)!;
+  // Names are stored hyphenated; classes get them in the Naming casing, as buildThemeCSS writes them
+  if (registry.colors.has(lower)) {
+    const stored = registry.colors.get(lower)!;
+    return registry.paletteColors.has(lower) ? stored : casedKey(stored);
+  }
 
   // 1. Match against extracted theme variables
   if (extractedColors && extractedColors.has(lower)) {
@@ -1484,11 +3099,12 @@ function registerColor(registry: TokenRegistry, hex: string, extractedColors?: M
     registry.colors.set(lower, name);
     return name;
   }
-  // 2. Match Tailwind defaults
-  if (TW_COLORS[lower]) {
-    const name = TW_COLORS[lower];
-    registry.colors.set(lower, name);
-    return name;
+  // 2. Match Tailwind defaults — already defined by Tailwind, so they stay out of @theme
+  const paletteName = tailwindPaletteName(lower, options.paletteTolerance);
+  if (paletteName) {
+    registry.colors.set(lower, paletteName);
+    registry.paletteColors.add(lower);
+    return paletteName;
   }
   // 3. Auto-name by hue family
   const hue = hexHue(lower);
@@ -1497,14 +3113,19 @@ function registerColor(registry: TokenRegistry, hex: string, extractedColors?: M
   const family = hueToColorName(hue, sat, lum);
   // Find unique suffix
   const existingInFamily = Array.from(registry.colors.values()).filter(n => n.startsWith(family));
-  const step = existingInFamily.length === 0 ? 500 : (existingInFamily.length + 1) * 100;
+  let step = existingInFamily.length === 0 ? 500 : (existingInFamily.length + 1) * 100;
+  // With ramps on, the step follows the color's lightness instead of the order colors were seen in
+  if (options.colorRamps) {
+    const byLightness = RAMP_STEPS[closestRampIndex(lower)];
+    if (existingInFamily.indexOf(`${family}-${byLightness}`) === -1) step = byLightness;
+  }
   const name = `${family}-${step}`;
   registry.colors.set(lower, name);
-  return name;
+  return casedKey(name);
 }
 
 function registerFontSize(registry: TokenRegistry, px: number): string {
-  if (registry.fontSizes.has(px)) return registry.fontSizes.get(px)!;
+  if (registry.fontSizes.has(px)) return casedKey(registry.fontSizes.get(px)!);
   const rem = px / 16;
   const closest = TW_TEXT_SCALE.reduce((best, s) => Math.abs(s.rem - rem) < Math.abs(best.rem - rem) ? s : best);
   // Check if name already used
@@ -1514,7 +3135,7 @@ function registerFontSize(registry: TokenRegistry, px: number): string {
     name = `${closest.name}-${px}`;
   }
   registry.fontSizes.set(px, name);
-  return name;
+  return casedKey(name);
 }
 
 function registerSpacing(registry: TokenRegistry, px: number): string {
@@ -1532,7 +3153,7 @@ function registerSpacing(registry: TokenRegistry, px: number): string {
 }
 
 function registerRadius(registry: TokenRegistry, px: number): string {
-  if (registry.radii.has(px)) return registry.radii.get(px)!;
+  if (registry.radii.has(px)) return casedKey(registry.radii.get(px)!);
   if (px >= 500) {
     registry.radii.set(px, 'full');
     return 'full';
@@ -1545,7 +3166,7 @@ function registerRadius(registry: TokenRegistry, px: number): string {
     name = `${closest.name}-${px}`;
   }
   registry.radii.set(px, name);
-  return name;
+  return casedKey(name);
 }
 
 // Extract radial gradient parameters from transform matrix
@@ -1644,13 +3265,14 @@ function registerGradient(
   return name;
 }
 
-function buildThemeCSS(registry: TokenRegistry): string {
+function buildThemeCSS(registry: TokenRegistry, format: GenerateOptions['colorFormat']): string {
   const lines: string[] = ['@theme {'];
 
-  if (registry.colors.size > 0) {
+  if (registry.colors.size > registry.paletteColors.size) {
     lines.push('  /* Colors */');
     for (const [hex, name] of registry.colors) {
-      lines.push(`  --color-${name}: ${hex};`);
+      if (registry.paletteColors.has(hex)) continue;
+      lines.push(`  ${themeVariableName('color', name)}: ${formatColor(hex, format)};`);
     }
   }
 
@@ -1659,7 +3281,7 @@ function buildThemeCSS(registry: TokenRegistry): string {
     lines.push('  /* Font Sizes */');
     for (const [px, name] of registry.fontSizes) {
       const rem = px / 16;
-      lines.push(`  --text-${name}: ${rem.toFixed(3)}rem;`);
+      lines.push(`  ${themeVariableName('text', name)}: ${rem.toFixed(3)}rem;`);
     }
   }
 
@@ -1668,7 +3290,7 @@ function buildThemeCSS(registry: TokenRegistry): string {
     lines.push('  /* Spacing */');
     for (const [px, name] of registry.spacing) {
       const rem = px / 16;
-      lines.push(`  --spacing-${name}: ${rem.toFixed(3)}rem;`);
+      lines.push(`  ${themeVariableName('spacing', name)}: ${rem.toFixed(3)}rem;`);
     }
   }
 
@@ -1676,7 +3298,7 @@ function buildThemeCSS(registry: TokenRegistry): string {
     lines.push('');
     lines.push('  /* Border Radius */');
     for (const [px, name] of registry.radii) {
-      lines.push(`  --radius-${name}: ${px}px;`);
+      lines.push(`  ${themeVariableName('radius', name)}: ${px}px;`);
     }
   }
 
@@ -1686,17 +3308,16 @@ function buildThemeCSS(registry: TokenRegistry): string {
     let gradientIndex = 0;
     for (const [key, data] of registry.gradients) {
       gradientIndex++;
-      const name = `gradient-${gradientIndex}`;
-      const stopsStr = data.stops.map(s => `${s.color} ${s.position}%`).join(', ');
+      const stopsStr = data.stops.map(s => `${formatColor(s.color, format)} ${s.position}%`).join(', ');
       if (data.type === 'linear') {
-        lines.push(`  --${name}: linear-gradient(${data.angle}deg, ${stopsStr});`);
+        lines.push(`  ${themeVariableName('gradient', String(gradientIndex))}: linear-gradient(${data.angle}deg, ${stopsStr});`);
       } else {
         // For radial gradients, use ellipse with proper dimensions and positioning
         const ex = data.ellipseX != null ? data.ellipseX : 100;
         const ey = data.ellipseY != null ? data.ellipseY : 100;
         const cx = data.centerX != null ? data.centerX : 50;
         const cy = data.centerY != null ? data.centerY : 50;
-        lines.push(`  --${name}: radial-gradient(ellipse ${ex}% ${ey}% at ${cx}% ${cy}%, ${stopsStr});`);
+        lines.push(`  ${themeVariableName('gradient', String(gradientIndex))}: radial-gradient(ellipse ${ex}% ${ey}% at ${cx}% ${cy}%, ${stopsStr});`);
       }
     }
   }
@@ -1725,8 +3346,9 @@ function gradientAngleToDirection(transform: ReadonlyArray<ReadonlyArray<number>
 }
 
 // Extract gradient stop colors - use rgba format for better CSS compatibility
-function gradientStopHex(stop: ColorStop): string {
+function gradientStopHex(stop: ColorStop, format: GenerateOptions['colorFormat']): string {
   const a = stop.color.a !== undefined ? stop.color.a : 1;
+  if (format !== 'hex') return formatColor(rgbaToHex(stop.color.r, stop.color.g, stop.color.b, a), format);
   if (a < 1) {
     // Use rgba format for colors with transparency
     const r = Math.round(stop.color.r * 255);
@@ -1744,14 +3366,14 @@ function formatNumberForCss(value: number): string {
   return rounded.toFixed(2).replace(/0+$/, '').replace(/\.$/, '');
 }
 
-function gradientStopsToCss(stops: ReadonlyArray<ColorStop>): string {
+function gradientStopsToCss(stops: ReadonlyArray<ColorStop>, format: GenerateOptions['colorFormat']): string {
   return stops
-    .map((s: ColorStop) => `${gradientStopHex(s)} ${formatNumberForCss(s.position * 100)}%`)
+    .map((s: ColorStop) => `${gradientStopHex(s, format)} ${formatNumberForCss(s.position * 100)}%`)
     .join(', ');
 }
 
-function linearGradientCssFromPaint(grad: GradientPaint): string {
-  const stopsStr = gradientStopsToCss(grad.gradientStops);
+function linearGradientCssFromPaint(grad: GradientPaint, format: GenerateOptions['colorFormat']): string {
+  const stopsStr = gradientStopsToCss(grad.gradientStops, format);
   let cssAngle = getGradientAngle(grad.gradientTransform as unknown as number[][]);
   const handles = (grad as any).gradientHandlePositions as ReadonlyArray<{ x: number; y: number }> | undefined;
   if (handles && handles.length >= 2) {
@@ -1766,8 +3388,8 @@ function linearGradientCssFromPaint(grad: GradientPaint): string {
   return `linear-gradient(${formatNumberForCss(cssAngle)}deg, ${stopsStr})`;
 }
 
-function radialGradientCssFromPaint(grad: GradientPaint): string {
-  const stopsStr = gradientStopsToCss(grad.gradientStops);
+function radialGradientCssFromPaint(grad: GradientPaint, format: GenerateOptions['colorFormat']): string {
+  const stopsStr = gradientStopsToCss(grad.gradientStops, format);
   const handles = (grad as any).gradientHandlePositions as ReadonlyArray<{ x: number; y: number }> | undefined;
   if (handles && handles.length >= 3) {
     const center = handles[0];
@@ -1782,14 +3404,14 @@ function radialGradientCssFromPaint(grad: GradientPaint): string {
   return `radial-gradient(circle, ${stopsStr})`;
 }
 
-function gradientPaintToTailwindBgClass(grad: GradientPaint): string {
+function gradientPaintToTailwindBgClass(grad: GradientPaint, format: GenerateOptions['colorFormat']): string {
   let css = '';
   if (grad.type === 'GRADIENT_LINEAR') {
-    css = linearGradientCssFromPaint(grad);
+    css = linearGradientCssFromPaint(grad, format);
   } else if (grad.type === 'GRADIENT_RADIAL') {
-    css = radialGradientCssFromPaint(grad);
+    css = radialGradientCssFromPaint(grad, format);
   } else {
-    css = linearGradientCssFromPaint(grad);
+    css = linearGradientCssFromPaint(grad, format);
   }
   return `bg-[${css.replace(/\s+/g, '_')}]`;
 }
@@ -1818,7 +3440,8 @@ function getVisibleChildrenInRenderOrder(
   isAutoLayout: boolean,
   isOverlap: boolean
 ): SceneNode[] {
-  const visible = node.children.filter((child: SceneNode) => child.visible !== false);
+  // Layers hidden by a boolean component property are still rendered, behind a condition
+  const visible = node.children.filter((child: SceneNode) => child.visible !== false || isTogglableByProp(child));
   if (visible.length <= 1 || isAutoLayout || isOverlap) return visible;
   const avgHeight = visible.reduce((sum: number, child: SceneNode) => sum + child.height, 0) / visible.length;
   const sameRowThreshold = Math.max(8, avgHeight * 0.25);
@@ -1894,6 +3517,8 @@ function getListItemWrapperClasses(
 
 // Modified nodeToClasses that uses a registry when provided
 function nodeToClassesWithRegistry(node: SceneNode, parentIsAutoLayout: boolean, registry: TokenRegistry, parentIsWrap?: boolean, parentWidth?: number, parentGap?: number, isTopLevel?: boolean): string[] {
+  // Read once per layer; the color helpers below take the options as parameters
+  const options = cachedOptions;
   const classes: string[] = [];
   if (node.visible === false) return classes;
 
@@ -2034,7 +3659,7 @@ function nodeToClassesWithRegistry(node: SceneNode, parentIsAutoLayout: boolean,
       if (paint.visible === false) continue;
       if (paint.type === 'SOLID') {
         const hex = rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity !== undefined ? paint.opacity : 1);
-        const colorName = registerColor(registry, hex);
+        const colorName = registerColor(registry, hex, options);
         if (node.type === 'TEXT') {
           classes.push(`text-${colorName}`);
         } else {
@@ -2045,13 +3670,13 @@ function nodeToClassesWithRegistry(node: SceneNode, parentIsAutoLayout: boolean,
       }
       if (!fillHandled && paint.type === 'GRADIENT_LINEAR' && (paint as any).gradientStops) {
         const grad = paint as GradientPaint;
-        classes.push(gradientPaintToTailwindBgClass(grad));
+        classes.push(gradientPaintToTailwindBgClass(grad, options.colorFormat));
         fillHandled = true;
         break;
       }
       if (!fillHandled && paint.type === 'GRADIENT_RADIAL' && (paint as any).gradientStops) {
         const grad = paint as GradientPaint;
-        classes.push(gradientPaintToTailwindBgClass(grad));
+        classes.push(gradientPaintToTailwindBgClass(grad, options.colorFormat));
         fillHandled = true;
         break;
       }
@@ -2079,7 +3704,7 @@ function nodeToClassesWithRegistry(node: SceneNode, parentIsAutoLayout: boolean,
         else classes.push(`border-${sw}`);
       }
       const hex = rgbaToHex(stroke.color.r, stroke.color.g, stroke.color.b, stroke.opacity !== undefined ? stroke.opacity : 1);
-      classes.push(`border-${registerColor(registry, hex)}`);
+      classes.push(`border-${registerColor(registry, hex, options)}`);
     }
   }
 
@@ -2256,7 +3881,7 @@ function nodeToClassesWithRegistry(node: SceneNode, parentIsAutoLayout: boolean,
         const sc = shadow.color;
         if (sc && (sc.r > 0.05 || sc.g > 0.05 || sc.b > 0.05)) {
           const shadowHex = rgbaToHex(sc.r, sc.g, sc.b, sc.a !== undefined ? sc.a : 1);
-          classes.push(`shadow-[${shadowHex}]`);
+          classes.push(`shadow-[${formatArbitraryColor(shadowHex, options.colorFormat)}]`);
         }
         dropShadowHandled = true;
       }
@@ -2266,7 +3891,7 @@ function nodeToClassesWithRegistry(node: SceneNode, parentIsAutoLayout: boolean,
         const y = Math.round(inner.offset && inner.offset.y || 0);
         const blur = Math.round(inner.radius || 0);
         const col = inner.color ? rgbaToHex(inner.color.r, inner.color.g, inner.color.b, inner.color.a !== undefined ? inner.color.a : 1) : '#00000040';
-        classes.push(`shadow-[inset_${x}px_${y}px_${blur}px_${col}]`);
+        classes.push(`shadow-[inset_${x}px_${y}px_${blur}px_${formatArbitraryColor(col, options.colorFormat)}]`);
       }
       if (effect.type === 'LAYER_BLUR') {
         const blur = Math.round((effect as any).radius || 0);
@@ -2488,6 +4113,8 @@ function inferLayoutFromChildren(frame: FrameNode): 'row' | 'col' | 'overlap' {
 }
 
 function nodeToClasses(node: SceneNode, parentIsAutoLayout: boolean, parentIsWrap?: boolean, parentWidth?: number, parentGap?: number, isTopLevel?: boolean): string[] {
+  // Read once per layer; the color helpers below take the options as parameters
+  const options = cachedOptions;
   const classes: string[] = [];
 
   // Skip invisible
@@ -2650,22 +4277,22 @@ function nodeToClasses(node: SceneNode, parentIsAutoLayout: boolean, parentIsWra
       if (paint.type === 'SOLID') {
         const hex = rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity !== undefined ? paint.opacity : 1);
         if (node.type === 'TEXT') {
-          classes.push(`text-${hexToTailwindColor(hex)}`);
+          classes.push(`text-${hexToTailwindColor(hex, options)}`);
         } else {
-          classes.push(`bg-${hexToTailwindColor(hex)}`);
+          classes.push(`bg-${hexToTailwindColor(hex, options)}`);
         }
         fillHandled = true;
         break;
       }
       if (!fillHandled && paint.type === 'GRADIENT_LINEAR' && (paint as any).gradientStops) {
         const grad = paint as GradientPaint;
-        classes.push(gradientPaintToTailwindBgClass(grad));
+        classes.push(gradientPaintToTailwindBgClass(grad, options.colorFormat));
         fillHandled = true;
         break;
       }
       if (!fillHandled && paint.type === 'GRADIENT_RADIAL' && (paint as any).gradientStops) {
         const grad = paint as GradientPaint;
-        classes.push(gradientPaintToTailwindBgClass(grad));
+        classes.push(gradientPaintToTailwindBgClass(grad, options.colorFormat));
         fillHandled = true;
         break;
       }
@@ -2693,7 +4320,7 @@ function nodeToClasses(node: SceneNode, parentIsAutoLayout: boolean, parentIsWra
         else classes.push(`border-${sw}`);
       }
       const hex = rgbaToHex(stroke.color.r, stroke.color.g, stroke.color.b, stroke.opacity !== undefined ? stroke.opacity : 1);
-      classes.push(`border-${hexToTailwindColor(hex)}`);
+      classes.push(`border-${hexToTailwindColor(hex, options)}`);
     }
   }
 
@@ -2900,7 +4527,7 @@ function nodeToClasses(node: SceneNode, parentIsAutoLayout: boolean, parentIsWra
         const sc = shadow.color;
         if (sc && (sc.r > 0.05 || sc.g > 0.05 || sc.b > 0.05)) {
           const shadowHex = rgbaToHex(sc.r, sc.g, sc.b, sc.a !== undefined ? sc.a : 1);
-          classes.push(`shadow-[${shadowHex}]`);
+          classes.push(`shadow-[${formatArbitraryColor(shadowHex, options.colorFormat)}]`);
         }
         dropShadowHandled = true;
       }
@@ -2910,7 +4537,7 @@ function nodeToClasses(node: SceneNode, parentIsAutoLayout: boolean, parentIsWra
         const y = Math.round(inner.offset && inner.offset.y || 0);
         const blur = Math.round(inner.radius || 0);
         const col = inner.color ? rgbaToHex(inner.color.r, inner.color.g, inner.color.b, inner.color.a !== undefined ? inner.color.a : 1) : '#00000040';
-        classes.push(`shadow-[inset_${x}px_${y}px_${blur}px_${col}]`);
+        classes.push(`shadow-[inset_${x}px_${y}px_${blur}px_${formatArbitraryColor(col, options.colorFormat)}]`);
       }
       if (effect.type === 'LAYER_BLUR') {
         const blur = Math.round((effect as any).radius || 0);
@@ -3070,6 +4697,13 @@ function detectSemanticElement(node: SceneNode, isTopLevel: boolean): SemanticRe
 
 function getTextContent(node: TextNode): string {
   const chars = node.characters || '';
+  const textProp = componentPropFor(node, 'characters') || subComponentPropFor(node, 'text');
+  if (textProp) return `{${textProp.name}}`;
+  // Component files turn each text layer into a prop; the marker is replaced once the tree is done
+  if (layerTextSlots) {
+    layerTextSlots.push({ layerName: node.name, value: chars });
+    return `{{slot:${layerTextSlots.length - 1}}}`;
+  }
   // Escape HTML entities
   return chars.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
@@ -3460,6 +5094,18 @@ async function generateLayerHTML(node: SceneNode, indent: number, isTopLevel: bo
 function lintTokens(tokens: ScannedTokens): LintWarning[] {
   const warnings: LintWarning[] = [];
 
+  // Unbound usage: raw hex fills/strokes that aren't tied to a variable or style
+  for (const c of tokens.colors) {
+    if (!c.unbound) continue;
+    const layers = (c.unboundLayers || []).join(', ') + (c.unbound > (c.unboundLayers || []).length ? ', ...' : '');
+    warnings.push({
+      category: 'Unbound Colors',
+      message: `${c.hex} is used as a raw value on ${c.unbound} layer${c.unbound === 1 ? '' : 's'} (${layers})`,
+      severity: c.token ? 'warning' : 'info',
+      suggestion: c.token ? `Bind it to "${c.token}", which already has this value` : 'Create a color variable or style for it',
+    });
+  }
+
   // Check font sizes against TW scale
   if (tokens.typography.length > 0) {
     const fontSizes = [...new Set(tokens.typography.map(t => t.fontSize))];
@@ -3565,6 +5211,9 @@ const SHADCN_NAME_RULES: { pattern: RegExp; component: ShadcnComponent }[] = [
 ];
 
 function detectShadcnComponent(node: SceneNode, semanticTag: string): ShadcnComponent | null {
+  // The component being generated renders its own element rather than wrapping a shadcn one
+  if (jsxComponentProps && node.id === jsxComponentProps.rootId) return null;
+  if (jsxSubComponents && jsxSubComponents.defining && node.id === jsxSubComponents.defining.instance.id) return null;
   const name = (node.name || '').toLowerCase();
   // Name-based match
   for (const rule of SHADCN_NAME_RULES) {
@@ -3610,7 +5259,11 @@ function htmlToJSX(html: string): string {
 
 // JSX-aware layer HTML generation (wraps standard generation + transforms)
 async function generateLayerJSX(node: SceneNode, indent: number, isTopLevel: boolean, parentIsAutoLayout: boolean, assets: AssetMap, usedFileNames: Set<string>, importCollector: ImportCollector, parentIsWrap?: boolean, parentWidth?: number, parentGap?: number): Promise<string> {
-  if (node.visible === false) return '';
+  const bound = await renderWithPropBinding(node, indent, () => generateLayerJSX(node, indent, isTopLevel, parentIsAutoLayout, assets, usedFileNames, importCollector, parentIsWrap, parentWidth, parentGap));
+  if (bound !== null) return bound;
+  if (node.visible === false && !isTogglableByProp(node)) return '';
+  const usage = await renderSubComponentUsage(node, indent, assets, usedFileNames, () => generateLayerJSX(node, 0, isTopLevel, parentIsAutoLayout, assets, usedFileNames, importCollector, parentIsWrap, parentWidth, parentGap));
+  if (usage !== null) return usage;
 
   const pad = '  '.repeat(indent);
   const classes = nodeToClasses(node, parentIsAutoLayout, parentIsWrap, parentWidth, parentGap, isTopLevel);
@@ -3622,19 +5275,27 @@ async function generateLayerJSX(node: SceneNode, indent: number, isTopLevel: boo
   const shadcn = detectShadcnComponent(node, semantic.tag);
 
   // Image fills
+  const imageProp = subComponentPropFor(node, 'image');
   if (hasImageFill(node)) {
     const imageUsage = classifyImageFillUsage(node, parentIsAutoLayout);
-    const exported = await exportImageFillToAsset(node, assets, usedFileNames);
+    const exported = imageProp ? null : await exportImageFillToAsset(node, assets, usedFileNames);
     if (imageUsage === 'image') {
       const imgClasses = [...allClasses, ...getImageClasses(node, parentIsAutoLayout)];
       const imgClassStr = imgClasses.length > 0 ? ` className="${imgClasses.join(' ')}"` : '';
+      if (imageProp) {
+        const alt = (node.name || 'image').replace(/"/g, '&quot;');
+        return `${pad}<img${imgClassStr} src={${imageProp.name}} alt="${alt}" />\n`;
+      }
       if (!exported) {
         const alt = (node.name || 'image').replace(/"/g, '&quot;');
         return `${pad}<img${imgClassStr} src="/placeholder.svg" alt="${alt}" />\n`;
       }
       return `${pad}<img${imgClassStr} src="{{asset:${exported.id}}}" alt="${exported.alt}" />\n`;
     }
-    if (exported) {
+    if (imageProp) {
+      allClasses.push(...getBackgroundImageClasses(node));
+      backgroundStyleAttr = ' style={{ backgroundImage: `url(${' + imageProp.name + '})` }}';
+    } else if (exported) {
       allClasses.push(...getBackgroundImageClasses(node));
       backgroundStyleAttr = ` style={{ backgroundImage: "url('{{asset:${exported.id}}}')" }}`;
     }
@@ -3739,7 +5400,17 @@ async function generateLayerJSX(node: SceneNode, indent: number, isTopLevel: boo
     html += `${pad}<${tag}${finalClassStr}${backgroundStyleAttr}${attrStr}>\n`;
 
     const orderedChildren = getVisibleChildrenInRenderOrder(frame, !!isAutoLayout, isOverlap);
+    const repeatedRuns = isOverlap ? new Map<string, SceneNode[] | null>() : findSubComponentRuns(orderedChildren);
     for (const child of orderedChildren) {
+      // Runs of the same repeated instance render as one .map() over a data array
+      if (repeatedRuns.has(child.id)) {
+        const run = repeatedRuns.get(child.id);
+        if (run) {
+          const wrapper = semantic.wrapChildren ? { tag: semantic.wrapChildren, classes: getListItemWrapperClasses(child, !!isAutoLayout, isWrap, frameInnerWidth, frameGap) } : null;
+          html += await renderSubComponentMap(run, indent + 1, wrapper, assets, usedFileNames, () => generateLayerJSX(child, 0, false, !!isAutoLayout, assets, usedFileNames, importCollector, isWrap, frameInnerWidth, frameGap));
+        }
+        continue;
+      }
       if (isOverlap) {
         const childClasses = nodeToClasses(child, false);
         childClasses.push('absolute');
@@ -3780,7 +5451,11 @@ async function generateLayerJSX(node: SceneNode, indent: number, isTopLevel: boo
 
 // JSX-aware layer HTML generation with registry
 async function generateLayerJSXWithRegistry(node: SceneNode, indent: number, isTopLevel: boolean, parentIsAutoLayout: boolean, registry: TokenRegistry, assets: AssetMap, usedFileNames: Set<string>, importCollector: ImportCollector, parentIsWrap?: boolean, parentWidth?: number, parentGap?: number): Promise<string> {
-  if (node.visible === false) return '';
+  const bound = await renderWithPropBinding(node, indent, () => generateLayerJSXWithRegistry(node, indent, isTopLevel, parentIsAutoLayout, registry, assets, usedFileNames, importCollector, parentIsWrap, parentWidth, parentGap));
+  if (bound !== null) return bound;
+  if (node.visible === false && !isTogglableByProp(node)) return '';
+  const usage = await renderSubComponentUsage(node, indent, assets, usedFileNames, () => generateLayerJSXWithRegistry(node, 0, isTopLevel, parentIsAutoLayout, registry, assets, usedFileNames, importCollector, parentIsWrap, parentWidth, parentGap));
+  if (usage !== null) return usage;
 
   const pad = '  '.repeat(indent);
   const classes = nodeToClassesWithRegistry(node, parentIsAutoLayout, registry, parentIsWrap, parentWidth, parentGap, isTopLevel);
@@ -3790,19 +5465,27 @@ async function generateLayerJSXWithRegistry(node: SceneNode, indent: number, isT
   let backgroundStyleAttr = '';
 
   // Image fills
+  const imageProp = subComponentPropFor(node, 'image');
   if (hasImageFill(node)) {
     const imageUsage = classifyImageFillUsage(node, parentIsAutoLayout);
-    const exported = await exportImageFillToAsset(node, assets, usedFileNames);
+    const exported = imageProp ? null : await exportImageFillToAsset(node, assets, usedFileNames);
     if (imageUsage === 'image') {
       const imgClasses = [...allClasses, ...getImageClasses(node, parentIsAutoLayout)];
       const imgClassStr = imgClasses.length > 0 ? ` className="${imgClasses.join(' ')}"` : '';
+      if (imageProp) {
+        const alt = (node.name || 'image').replace(/"/g, '&quot;');
+        return `${pad}<img${imgClassStr} src={${imageProp.name}} alt="${alt}" />\n`;
+      }
       if (!exported) {
         const alt = (node.name || 'image').replace(/"/g, '&quot;');
         return `${pad}<img${imgClassStr} src="/placeholder.svg" alt="${alt}" />\n`;
       }
       return `${pad}<img${imgClassStr} src="{{asset:${exported.id}}}" alt="${exported.alt}" />\n`;
     }
-    if (exported) {
+    if (imageProp) {
+      allClasses.push(...getBackgroundImageClasses(node));
+      backgroundStyleAttr = ' style={{ backgroundImage: `url(${' + imageProp.name + '})` }}';
+    } else if (exported) {
       allClasses.push(...getBackgroundImageClasses(node));
       backgroundStyleAttr = ` style={{ backgroundImage: "url('{{asset:${exported.id}}}')" }}`;
     }
@@ -3899,7 +5582,17 @@ async function generateLayerJSXWithRegistry(node: SceneNode, indent: number, isT
     html += `${pad}<${tag}${finalClassStr}${backgroundStyleAttr}${attrStr}>\n`;
 
     const orderedChildren = getVisibleChildrenInRenderOrder(frame, !!isAutoLayout, isOverlap);
+    const repeatedRuns = isOverlap ? new Map<string, SceneNode[] | null>() : findSubComponentRuns(orderedChildren);
     for (const child of orderedChildren) {
+      // Runs of the same repeated instance render as one .map() over a data array
+      if (repeatedRuns.has(child.id)) {
+        const run = repeatedRuns.get(child.id);
+        if (run) {
+          const wrapper = semantic.wrapChildren ? { tag: semantic.wrapChildren, classes: getListItemWrapperClasses(child, !!isAutoLayout, isWrap, frameInnerWidth, frameGap) } : null;
+          html += await renderSubComponentMap(run, indent + 1, wrapper, assets, usedFileNames, () => generateLayerJSXWithRegistry(child, 0, false, !!isAutoLayout, registry, assets, usedFileNames, importCollector, isWrap, frameInnerWidth, frameGap));
+        }
+        continue;
+      }
       if (isOverlap) {
         const childClasses = nodeToClassesWithRegistry(child, false, registry);
         childClasses.push('absolute');
@@ -3938,21 +5631,1020 @@ async function generateLayerJSXWithRegistry(node: SceneNode, indent: number, isT
   return `${pad}<div${fallbackClassStr}${backgroundStyleAttr}></div>\n`;
 }
 
+// ─── React component props ───
+
+interface ComponentProp {
+  name: string;
+  type: string;                // TS type: string, boolean, ReactNode or a union of variant values
+  defaultValue: string | null; // TS expression, null when the prop has no default
+  kind: ComponentPropertyType;
+  options?: string[];          // variant values, in the order the set defines them
+}
+
+interface ComponentPropContext {
+  rootId: string;                    // the component whose property references we honor
+  props: Map<string, ComponentProp>; // keyed by the Figma property name ("Label#12:0")
+  rendering: Set<string>;            // node ids being rendered inside their binding
+}
+
+// Set while a COMPONENT / COMPONENT_SET is generated as a React component; null otherwise
+let jsxComponentProps: ComponentPropContext | null = null;
+
+// Variants only expose definitions through their set
+function componentPropertyDefinitionsOf(node: ComponentNode | ComponentSetNode): ComponentPropertyDefinitions {
+  if (node.type === 'COMPONENT' && node.parent && node.parent.type === 'COMPONENT_SET') {
+    return node.parent.componentPropertyDefinitions;
+  }
+  return node.componentPropertyDefinitions;
+}
+
+function createComponentPropContext(root: ComponentNode, definitions: ComponentPropertyDefinitions): ComponentPropContext {
+  const used = new Set<string>(['props']);
+  const props = new Map<string, ComponentProp>();
+  for (const key of Object.keys(definitions)) {
+    const def = definitions[key];
+    const name = toPropName(key.replace(/#[^#]*$/, ''), 'prop', used);
+    if (def.type === 'TEXT') {
+      props.set(key, { name: name, type: 'string', defaultValue: JSON.stringify(String(def.defaultValue)), kind: def.type });
+    } else if (def.type === 'BOOLEAN') {
+      props.set(key, { name: name, type: 'boolean', defaultValue: String(def.defaultValue === true), kind: def.type });
+    } else if (def.type === 'INSTANCE_SWAP') {
+      props.set(key, { name: name, type: 'ReactNode', defaultValue: null, kind: def.type });
+    } else if (def.type === 'VARIANT') {
+      const options = def.variantOptions || [String(def.defaultValue)];
+      props.set(key, { name: name, type: options.map(option => JSON.stringify(option)).join(' | '), defaultValue: JSON.stringify(String(def.defaultValue)), kind: def.type, options: options });
+    }
+  }
+  return { rootId: root.id, props: props, rendering: new Set() };
+}
+
+// References on a layer belong to the closest enclosing component or instance; nested instances keep theirs
+function componentPropFor(node: SceneNode, field: 'visible' | 'characters' | 'mainComponent'): ComponentProp | null {
+  if (!jsxComponentProps) return null;
+  const refs = node.componentPropertyReferences;
+  const key = refs ? refs[field] : undefined;
+  if (!key) return null;
+  let owner = node.parent;
+  while (owner && owner.type !== 'COMPONENT' && owner.type !== 'INSTANCE') owner = owner.parent;
+  if (!owner || owner.id !== jsxComponentProps.rootId) return null;
+  return jsxComponentProps.props.get(key) || null;
+}
+
+function isTogglableByProp(node: SceneNode): boolean {
+  return componentPropFor(node, 'visible') !== null;
+}
+
+// A layer tree printed as one JSX expression: the instance comment line is dropped
+// and the markup is wrapped in parentheses one level deeper than the binding
+function toJSXExpression(markup: string, pad: string): string {
+  const lines = markup.split('\n').filter(line => line.trim());
+  if (lines.length > 1 && /^\s*\{\/\*.*\*\/\}$/.test(lines[0])) lines.shift();
+  if (lines.length === 0) return 'null';
+  return '(\n' + lines.map(line => '  ' + line).join('\n') + '\n' + pad + ')';
+}
+
+// Wraps a layer bound to a boolean (`{showIcon && (…)}`) or instance-swap (`{icon ?? (…)}`) property.
+// Returns null when the layer has no binding, so the caller renders it normally
+async function renderWithPropBinding(node: SceneNode, indent: number, render: () => Promise<string>): Promise<string | null> {
+  if (!jsxComponentProps || jsxComponentProps.rendering.has(node.id)) return null;
+  const toggle = componentPropFor(node, 'visible');
+  const swap = node.type === 'INSTANCE' ? componentPropFor(node, 'mainComponent') : null;
+  if (!toggle && !swap) return null;
+
+  const pad = '  '.repeat(indent);
+  jsxComponentProps.rendering.add(node.id);
+  let markup: string;
+  try {
+    markup = await render();
+  } finally {
+    jsxComponentProps.rendering.delete(node.id);
+  }
+
+  let expr = toJSXExpression(markup, pad);
+  if (swap) expr = `${swap.name} ?? ${expr}`;
+  if (toggle) expr = swap ? `${toggle.name} && (${expr})` : `${toggle.name} && ${expr}`;
+  return `${pad}{${expr}}\n`;
+}
+
+// export function Name(props: NameProps) around the generated JSX. Without a cva recipe, variant props
+// are exposed on the root as data attributes so data-[size=sm]: style variants can key off them
+function buildReactComponent(name: string, jsx: string, imports: string, context: ComponentPropContext, recipe?: VariantRecipe | null, definitions?: string): string {
+  const props = Array.from(context.props.values());
+  const ownProps = recipe ? props.filter(prop => prop.kind !== 'VARIANT') : props;
+  const propsType = name + 'Props';
+  const recipeName = name.charAt(0).toLowerCase() + name.slice(1) + 'Variants';
+  let root = toJSXExpression(jsx.replace(/^(?=.)/gm, '  '), '  ');
+  if (recipe) {
+    const args = recipe.variants.map(group => group.prop).concat('className').join(', ');
+    const classAttr = `className={cn(${recipeName}({ ${args} }))}`;
+    // The opening tag is always the root's first line; swap its className wherever it sits, or add one
+    const rootLines = root.split('\n');
+    rootLines[1] = / className="[^"]*"/.test(rootLines[1])
+      ? rootLines[1].replace(/ className="[^"]*"/, ' ' + classAttr)
+      : rootLines[1].replace(/^(\s*<[\w.]+)/, '$1 ' + classAttr);
+    root = rootLines.join('\n');
+  } else {
+    const variantAttrs = props.filter(prop => prop.kind === 'VARIANT')
+      .map(prop => ` data-${prop.name.replace(/[A-Z]/g, c => '-' + c.toLowerCase())}={${prop.name}}`).join('');
+    if (variantAttrs) root = root.replace(/^(\(\n\s*<[\w.]+)/, '$1' + variantAttrs);
+  }
+
+  let code = imports;
+  if (recipe) {
+    code += 'import { cva, type VariantProps } from "class-variance-authority"\n';
+    code += 'import { cn } from "@/lib/utils"\n';
+  }
+  if (ownProps.some(prop => prop.type === 'ReactNode')) code += 'import type { ReactNode } from "react"\n';
+  if (code) code += '\n';
+  if (definitions) code += definitions + '\n';
+
+  if (recipe) {
+    code += buildCvaDefinition(recipeName, recipe) + '\n';
+    code += `export interface ${propsType} extends VariantProps<typeof ${recipeName}> {\n`;
+    for (const prop of ownProps) code += `  ${prop.name}?: ${prop.type}\n`;
+    code += '  className?: string\n';
+  } else {
+    code += `export interface ${propsType} {\n`;
+    for (const prop of ownProps) code += `  ${prop.name}?: ${prop.type}\n`;
+  }
+  code += '}\n\n';
+
+  if (recipe && recipe.defaults.length > 0) {
+    const defaults = recipe.defaults.map(entry => `${entry.prop}="${entry.value}"`).join(', ');
+    code += `// Children follow the default variant (${defaults}); the recipe only varies the root element's classes\n`;
+  }
+  code += `export function ${name}(props: ${propsType}) {\n`;
+  // cva applies defaultVariants itself, so variant props are destructured without defaults
+  const fields = recipe
+    ? recipe.variants.map(group => group.prop).concat('className')
+    : [];
+  for (const prop of ownProps) fields.push(prop.defaultValue !== null ? `${prop.name} = ${prop.defaultValue}` : prop.name);
+  if (fields.length > 0) code += `  const { ${fields.join(', ')} } = props\n`;
+  code += `  return ${root}\n}\n`;
+  return code;
+}
+
+// ─── Variant recipes (cva) ───
+
+interface VariantRecipe {
+  base: string[];
+  variants: { prop: string; values: { value: string; classes: string[] }[] }[];
+  compounds: { match: { prop: string; value: string }[]; classes: string[] }[];
+  defaults: { prop: string; value: string }[];
+}
+
+// Root classes of one variant, as the tree walk computes them for a top-level node
+function variantRootClasses(variant: ComponentNode, registry: TokenRegistry | null): string[] {
+  const classes = registry
+    ? nodeToClassesWithRegistry(variant, false, registry, undefined, undefined, undefined, true)
+    : nodeToClasses(variant, false, undefined, undefined, undefined, true);
+  return Array.from(new Set([...classes, ...detectSemanticElement(variant, true).extraClasses]));
+}
+
+// Classes every variant shares become the base; classes shared by every variant with one property value
+// go under that value; whatever a combination still needs becomes a compound variant
+function buildVariantRecipe(set: ComponentSetNode, context: ComponentPropContext, registry: TokenRegistry | null): VariantRecipe | null {
+  const entries = set.children
+    .filter((child): child is ComponentNode => child.type === 'COMPONENT')
+    .map(variant => ({ values: variant.variantProperties || {}, classes: variantRootClasses(variant, registry), isDefault: variant.id === set.defaultVariant.id }));
+  const variantKeys = Array.from(context.props.keys()).filter(key => context.props.get(key)!.kind === 'VARIANT');
+  if (entries.length === 0 || variantKeys.length === 0) return null;
+
+  const defaultEntry = entries.find(entry => entry.isDefault) || entries[0];
+  const base = defaultEntry.classes.filter(cls => entries.every(entry => entry.classes.includes(cls)));
+
+  const variants: VariantRecipe['variants'] = [];
+  const valueClasses = new Map<string, string[]>(); // "key\u0000value" -> classes
+  for (const key of variantKeys) {
+    const prop = context.props.get(key)!;
+    const values: { value: string; classes: string[] }[] = [];
+    for (const value of prop.options || []) {
+      const matching = entries.filter(entry => entry.values[key] === value);
+      if (matching.length === 0) continue;
+      const classes = matching[0].classes.filter(cls => !base.includes(cls) && matching.every(entry => entry.classes.includes(cls)));
+      valueClasses.set(key + '\u0000' + value, classes);
+      values.push({ value: value, classes: classes });
+    }
+    if (values.length > 0) variants.push({ prop: prop.name, values: values });
+  }
+  if (variants.length === 0) return null;
+
+  const compounds: VariantRecipe['compounds'] = [];
+  for (const entry of entries) {
+    const explained = new Set(base);
+    for (const key of variantKeys) {
+      for (const cls of valueClasses.get(key + '\u0000' + entry.values[key]) || []) explained.add(cls);
+    }
+    const leftover = entry.classes.filter(cls => !explained.has(cls));
+    if (leftover.length === 0) continue;
+    compounds.push({
+      match: variantKeys.map(key => ({ prop: context.props.get(key)!.name, value: entry.values[key] })),
+      classes: leftover,
+    });
+  }
+
+  const defaults = variantKeys
+    .filter(key => defaultEntry.values[key] !== undefined)
+    .map(key => ({ prop: context.props.get(key)!.name, value: defaultEntry.values[key] }));
+  return { base: base, variants: variants, compounds: compounds, defaults: defaults };
+}
+
+function cvaKey(value: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(value) ? value : JSON.stringify(value);
+}
+
+function buildCvaDefinition(recipeName: string, recipe: VariantRecipe): string {
+  let code = `const ${recipeName} = cva(${JSON.stringify(recipe.base.join(' '))}, {\n`;
+  code += '  variants: {\n';
+  for (const group of recipe.variants) {
+    code += `    ${group.prop}: {\n`;
+    for (const entry of group.values) code += `      ${cvaKey(entry.value)}: ${JSON.stringify(entry.classes.join(' '))},\n`;
+    code += '    },\n';
+  }
+  code += '  },\n';
+  if (recipe.compounds.length > 0) {
+    code += '  compoundVariants: [\n';
+    for (const compound of recipe.compounds) {
+      const match = compound.match.map(m => `${m.prop}: ${JSON.stringify(m.value)}`).join(', ');
+      code += `    { ${match}, className: ${JSON.stringify(compound.classes.join(' '))} },\n`;
+    }
+    code += '  ],\n';
+  }
+  code += '  defaultVariants: {\n';
+  for (const entry of recipe.defaults) code += `    ${entry.prop}: ${JSON.stringify(entry.value)},\n`;
+  code += '  },\n';
+  code += '})\n';
+  return code;
+}
+
+// ─── Repeated instances → sub-components ───
+
+interface SubComponentProp {
+  name: string;
+  path: string;           // child indices from the instance root, "" for the root itself
+  kind: 'text' | 'image';
+}
+
+interface SubComponent {
+  name: string;
+  instances: InstanceNode[];
+  props: Map<string, SubComponentProp>; // keyed by path
+  code: string | null;                  // the function, rendered from the first instance the walk reaches
+}
+
+interface SubComponentContext {
+  byInstance: Map<string, SubComponent>;
+  components: SubComponent[];
+  dataArrays: string[];
+  usedNames: Set<string>;
+  defining: { instance: SceneNode; component: SubComponent } | null;
+}
+
+// Set while JSX is generated; null otherwise
+let jsxSubComponents: SubComponentContext | null = null;
+
+// Shorter runs stay as separate <ProductCard … /> calls
+const MAP_MIN_REPEATS = 3;
+
+function layerPath(node: BaseNode, ancestor: BaseNode): string | null {
+  const parts: number[] = [];
+  let current: BaseNode = node;
+  while (current.id !== ancestor.id) {
+    const parent: BaseNode | null = current.parent;
+    if (!parent || !('children' in parent)) return null;
+    parts.unshift((parent.children as readonly BaseNode[]).indexOf(current));
+    current = parent;
+  }
+  return parts.join('/');
+}
+
+function nodeAtPath(root: SceneNode, path: string): SceneNode | null {
+  let current: SceneNode | null = root;
+  for (const part of path ? path.split('/') : []) {
+    if (!current || !('children' in current)) return null;
+    current = (current.children[Number(part)] as SceneNode) || null;
+  }
+  return current;
+}
+
+function imageFillHash(node: SceneNode): string | null {
+  const fills = 'fills' in node && Array.isArray(node.fills) ? node.fills as Paint[] : [];
+  const image = fills.find(fill => fill.type === 'IMAGE' && fill.visible !== false) as ImagePaint | undefined;
+  return image ? image.imageHash : null;
+}
+
+// Root classes an instance gets from the tree walk, which depend on its parent's layout
+function instanceRootClasses(node: SceneNode): string[] {
+  const parent = node.parent;
+  let classes: string[];
+  if (parent && (parent.type === 'FRAME' || parent.type === 'COMPONENT' || parent.type === 'INSTANCE')) {
+    const isAutoLayout = parent.layoutMode && parent.layoutMode !== 'NONE';
+    const isOverlap = !isAutoLayout && parent.children.length > 0 && inferLayoutFromChildren(parent as FrameNode) === 'overlap';
+    const innerWidth = Math.round(parent.width) - (parent.paddingLeft || 0) - (parent.paddingRight || 0);
+    classes = isOverlap
+      ? nodeToClasses(node, false)
+      : nodeToClasses(node, !!isAutoLayout, !!isAutoLayout && parent.layoutWrap === 'WRAP', innerWidth, parent.itemSpacing || 0);
+  } else {
+    classes = nodeToClasses(node, false);
+  }
+  return classes.concat(detectSemanticElement(node, false).extraClasses);
+}
+
+// Paths of the visible layers, so instances with different hidden-layer overrides don't share markup
+function visibleLayerPaths(root: SceneNode): string[] {
+  const paths: string[] = [];
+  const collect = (node: SceneNode, path: string) => {
+    if (node.visible === false) return;
+    paths.push(path);
+    if ('children' in node) node.children.forEach((child, i) => collect(child, path ? path + '/' + i : String(i)));
+  };
+  collect(root, '');
+  return paths;
+}
+
+// Groups instances by main component without descending into them. Only instances with the same root
+// classes and the same visible layers share a function, so every use keeps its own size and position.
+// Text and image fills that differ become props; any other override follows the first instance
+async function createSubComponentContext(root: SceneNode, reservedNames: string[]): Promise<SubComponentContext> {
+  const groups = new Map<string, InstanceNode[]>();
+  const names = new Map<string, string>();
+  const visit = async (node: SceneNode) => {
+    if (node.visible === false) return;
+    // Instances that map to a shadcn component keep rendering as that import
+    const isShadcn = node.type === 'INSTANCE' && detectShadcnComponent(node, detectSemanticElement(node, false).tag) !== null;
+    if (node.type === 'INSTANCE' && node.id !== root.id && !isShadcn) {
+      const main = await node.getMainComponentAsync();
+      if (!main) return;
+      const key = [main.id, instanceRootClasses(node).join(' '), visibleLayerPaths(node).join(',')].join('|');
+      if (!groups.has(key)) {
+        groups.set(key, []);
+        names.set(key, main.parent && main.parent.type === 'COMPONENT_SET' ? main.parent.name : main.name);
+      }
+      groups.get(key)!.push(node);
+      return;
+    }
+    if ('children' in node) {
+      for (const child of node.children) await visit(child);
+    }
+  };
+  await visit(root);
+
+  // shadcn names are reserved so a sub-component never shadows an import
+  const usedNames = new Set<string>(reservedNames.concat(SHADCN_NAME_RULES.map(rule => rule.component.name)));
+  const context: SubComponentContext = { byInstance: new Map(), components: [], dataArrays: [], usedNames: usedNames, defining: null };
+  for (const [key, instances] of groups) {
+    if (instances.length < 2) continue;
+    const base = toComponentName(names.get(key)!);
+    let name = base;
+    let counter = 2;
+    while (usedNames.has(name)) name = base + counter++;
+    usedNames.add(name);
+
+    const component: SubComponent = { name: name, instances: instances, props: new Map(), code: null };
+    const propNames = new Set<string>(['key']);
+    const first = instances[0];
+    const collect = (node: SceneNode) => {
+      if (node.visible === false) return;
+      const path = layerPath(node, first)!;
+      const others = instances.slice(1).map(instance => nodeAtPath(instance, path));
+      if (node.type === 'TEXT') {
+        if (others.some(other => !other || other.type !== 'TEXT' || other.characters !== node.characters)) {
+          component.props.set(path, { name: toPropName(node.name, 'text', propNames), path: path, kind: 'text' });
+        }
+      } else if (hasImageFill(node)) {
+        const hash = imageFillHash(node);
+        if (others.some(other => !other || imageFillHash(other) !== hash)) {
+          component.props.set(path, { name: toPropName(node.name, 'image', propNames), path: path, kind: 'image' });
+        }
+      }
+      // Nested instances are rendered as they are in the first instance
+      if ('children' in node && (node === first || node.type !== 'INSTANCE')) {
+        for (const child of node.children) collect(child);
+      }
+    };
+    collect(first);
+
+    context.components.push(component);
+    for (const instance of instances) context.byInstance.set(instance.id, component);
+  }
+  return context;
+}
+
+function subComponentPropFor(node: SceneNode, kind: 'text' | 'image'): SubComponentProp | null {
+  if (!jsxSubComponents || !jsxSubComponents.defining) return null;
+  const path = layerPath(node, jsxSubComponents.defining.instance);
+  const prop = path === null ? undefined : jsxSubComponents.defining.component.props.get(path);
+  return prop && prop.kind === kind ? prop : null;
+}
+
+async function defineSubComponent(component: SubComponent, instance: SceneNode, render: () => Promise<string>): Promise<void> {
+  if (component.code !== null || !jsxSubComponents) return;
+  jsxSubComponents.defining = { instance: instance, component: component };
+  let markup: string;
+  try {
+    markup = await render();
+  } finally {
+    jsxSubComponents.defining = null;
+  }
+
+  const props = Array.from(component.props.values());
+  let code = '';
+  if (props.length > 0) {
+    code += `interface ${component.name}Props {\n`;
+    for (const prop of props) code += `  ${prop.name}: string\n`;
+    code += '}\n\n';
+    code += `function ${component.name}(props: ${component.name}Props) {\n`;
+    code += `  const { ${props.map(prop => prop.name).join(', ')} } = props\n`;
+  } else {
+    code += `function ${component.name}() {\n`;
+  }
+  code += `  return ${toJSXExpression(markup.replace(/^(?=.)/gm, '  '), '  ')}\n}\n`;
+  component.code = code;
+}
+
+// Prop values of one instance: its text, or its image fill exported as an asset
+async function subComponentValues(component: SubComponent, instance: SceneNode, assets: AssetMap, usedFileNames: Set<string>): Promise<{ name: string; value: string }[]> {
+  const values: { name: string; value: string }[] = [];
+  for (const prop of component.props.values()) {
+    const node = nodeAtPath(instance, prop.path);
+    let value = '';
+    if (node && prop.kind === 'text' && node.type === 'TEXT') {
+      value = node.characters;
+    } else if (node && prop.kind === 'image') {
+      const exported = await exportImageFillToAsset(node, assets, usedFileNames);
+      value = exported ? `{{asset:${exported.id}}}` : '/placeholder.svg';
+    }
+    values.push({ name: prop.name, value: value });
+  }
+  return values;
+}
+
+function jsxAttributeValue(value: string): string {
+  // Asset placeholders are resolved to plain paths, so they don't force an expression
+  return /["{}<>&\n]/.test(value.replace(/\{\{asset:[\w-]+\}\}/g, '')) ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+// <ProductCard title="…" /> in place of a repeated instance; null for any other layer
+async function renderSubComponentUsage(node: SceneNode, indent: number, assets: AssetMap, usedFileNames: Set<string>, render: () => Promise<string>): Promise<string | null> {
+  if (!jsxSubComponents || node.type !== 'INSTANCE') return null;
+  if (jsxSubComponents.defining && jsxSubComponents.defining.instance.id === node.id) return null;
+  const component = jsxSubComponents.byInstance.get(node.id);
+  if (!component) return null;
+  await defineSubComponent(component, node, render);
+  const values = await subComponentValues(component, node, assets, usedFileNames);
+  const attrs = values.map(entry => ` ${entry.name}=${jsxAttributeValue(entry.value)}`).join('');
+  return `${'  '.repeat(indent)}<${component.name}${attrs} />\n`;
+}
+
+// Consecutive siblings that are instances of one sub-component, keyed by the first sibling.
+// The other members map to null so the caller skips them
+function findSubComponentRuns(children: SceneNode[]): Map<string, SceneNode[] | null> {
+  const runs = new Map<string, SceneNode[] | null>();
+  if (!jsxSubComponents) return runs;
+  const context = jsxSubComponents;
+  // Instances bound to a component property keep their own {condition && …} wrapper
+  const componentOf = (node: SceneNode) => isTogglableByProp(node) || componentPropFor(node, 'mainComponent')
+    ? undefined
+    : context.byInstance.get(node.id);
+  let i = 0;
+  while (i < children.length) {
+    const component = componentOf(children[i]);
+    let end = i + 1;
+    while (component && end < children.length && componentOf(children[end]) === component) end++;
+    if (component && end - i >= MAP_MIN_REPEATS) {
+      const run = children.slice(i, end);
+      runs.set(run[0].id, run);
+      for (const member of run.slice(1)) runs.set(member.id, null);
+    }
+    i = end;
+  }
+  return runs;
+}
+
+// {productCardItems.map(…)} in place of the run; the data array goes next to the definitions
+async function renderSubComponentMap(run: SceneNode[], indent: number, wrapper: { tag: string; classes: string[] } | null, assets: AssetMap, usedFileNames: Set<string>, render: () => Promise<string>): Promise<string> {
+  const context = jsxSubComponents!;
+  const component = context.byInstance.get(run[0].id)!;
+  await defineSubComponent(component, run[0], render);
+
+  const base = component.name.charAt(0).toLowerCase() + component.name.slice(1) + 'Items';
+  let arrayName = base;
+  let counter = 2;
+  while (context.usedNames.has(arrayName)) arrayName = base + counter++;
+  context.usedNames.add(arrayName);
+
+  let data = `const ${arrayName} = [\n`;
+  for (const instance of run) {
+    const values = await subComponentValues(component, instance, assets, usedFileNames);
+    data += values.length > 0
+      ? `  { ${values.map(entry => `${entry.name}: ${JSON.stringify(entry.value)}`).join(', ')} },\n`
+      : '  {},\n';
+  }
+  data += ']\n';
+  context.dataArrays.push(data);
+
+  const pad = '  '.repeat(indent);
+  let body = `${pad}  <${component.name} key={index} {...item} />\n`;
+  if (wrapper) {
+    const classStr = wrapper.classes.length > 0 ? ` className="${wrapper.classes.join(' ')}"` : '';
+    body = `${pad}  <${wrapper.tag} key={index}${classStr}>\n${pad}    <${component.name} {...item} />\n${pad}  </${wrapper.tag}>\n`;
+  }
+  return `${pad}{${arrayName}.map((item, index) => (\n${body}${pad}))}\n`;
+}
+
+// Function definitions, then data arrays, in the order the tree walk produced them
+function buildSubComponentDefinitions(context: SubComponentContext): string {
+  const blocks = context.components.filter(component => component.code !== null).map(component => component.code!);
+  return blocks.concat(context.dataArrays).join('\n');
+}
+
 // Cache for re-generation when options change
 let cachedSource: 'scan' | 'variables' = 'variables';
 let cachedScannedTokens: ScannedTokens | null = null;
 let cachedCollections: CollectionData[] = [];
 let cachedStyles: any = null;
 let cachedOptions: GenerateOptions = Object.assign({}, DEFAULT_OPTIONS);
+let cachedLayerSettings = { generateCSS: false, jsxMode: false, vueMode: false, svelteMode: false };
+// Name collisions from the last variables run, merged into the Lint tab
+let cachedNameWarnings: LintWarning[] = [];
+
+// ─── Component file output (Vue / Svelte) ───
+
+interface TextSlot {
+  layerName: string;
+  value: string; // the text the selected layer has, used as the prop default
+}
+
+// Collected by getTextContent while a component file is generated; null for plain HTML/JSX
+let layerTextSlots: TextSlot[] | null = null;
+
+// "Hero section" -> "HeroSection"; names that can't start an identifier get a prefix
+function toComponentName(name: string): string {
+  const pascal = (name || '').split(/[^A-Za-z0-9]+/).filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  if (!pascal) return 'FigmaComponent';
+  return /^[0-9]/.test(pascal) ? 'Figma' + pascal : pascal;
+}
+
+// "Card title" -> "cardTitle", unique within the component. Long layer names (text copied as the name) keep 3 words
+function toPropName(name: string, fallback: string, used: Set<string>, suffix: string = ''): string {
+  const words = (name || '').split(/[^A-Za-z0-9]+/).filter(Boolean).slice(0, 3);
+  let base = words.map((word, i) => i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('');
+  if (!base || /^[0-9]/.test(base)) base = fallback + base;
+  base += suffix;
+  let prop = base;
+  let counter = 2;
+  while (used.has(prop)) prop = base + counter++;
+  used.add(prop);
+  return prop;
+}
+
+function toSingleQuotedString(value: string): string {
+  return "'" + value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n') + "'";
+}
+
+function escapeHtmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+interface ComponentParts {
+  template: string;   // markup with {{ prop }} / :src="…" bindings
+  preview: string;    // the same markup with the layer's own text and {{asset:…}} images, for preview and ZIP
+  imports: string[];  // import lines for the assets
+  props: { name: string; type: 'string'; defaultValue: string }[]; // defaultValue is a TS expression
+}
+
+// Splits generated HTML into text/image props and asset imports. Raster <img> sources become props
+// defaulting to the imported file; SVGs and background images are imported and bound directly
+function extractComponentParts(html: string, assets: AssetMap, slots: TextSlot[], binding: (expr: string) => string, attrBinding: (attr: string, expr: string) => string): ComponentParts {
+  const usedNames = new Set<string>();
+  const importNames = new Map<string, string>();
+  const imports: string[] = [];
+  const props: ComponentParts['props'] = [];
+
+  const importFor = (id: string): string => {
+    if (importNames.has(id)) return importNames.get(id)!;
+    const asset = assets[id];
+    const name = toPropName(asset.fileName.replace(/\.[a-z0-9]+$/i, ''), 'asset', usedNames, 'Url');
+    importNames.set(id, name);
+    imports.push(`import ${name} from './assets/${asset.fileName}'`);
+    return name;
+  };
+
+  // Text layers
+  const slotProps = slots.map(slot => {
+    const name = toPropName(slot.layerName, 'text', usedNames);
+    props.push({ name: name, type: 'string', defaultValue: toSingleQuotedString(slot.value) });
+    return name;
+  });
+  let template = html.replace(/\{\{slot:(\d+)\}\}/g, (_match, i) => binding(slotProps[Number(i)]));
+  const preview = html.replace(/\{\{slot:(\d+)\}\}/g, (_match, i) => escapeHtmlText(slots[Number(i)].value));
+
+  // Raster images -> props
+  template = template.replace(/ src="\{\{asset:([\w-]+)\}\}" alt="([^"]*)"/g, (match, id, alt) => {
+    const asset = assets[id];
+    if (!asset || asset.mimeType === 'image/svg+xml') return match;
+    const name = toPropName(alt.replace(/&quot;/g, ''), 'image', usedNames);
+    props.push({ name: name, type: 'string', defaultValue: importFor(id) });
+    return ' ' + attrBinding('src', name) + ` alt="${alt}"`;
+  });
+  // Icons and background images -> imports
+  template = template.replace(/ style="background-image: url\('\{\{asset:([\w-]+)\}\}'\);"/g, (match, id) => {
+    if (!assets[id]) return match;
+    return ' ' + attrBinding('style', '`background-image: url(${' + importFor(id) + '})`');
+  });
+  template = template.replace(/ src="\{\{asset:([\w-]+)\}\}"/g, (match, id) => {
+    if (!assets[id]) return match;
+    return ' ' + attrBinding('src', importFor(id));
+  });
+
+  return { template: template, preview: preview, imports: imports, props: props };
+}
+
+// <script setup lang="ts"> + <template>; text and image props are optional and default to the design's values
+function buildVueSFC(html: string, assets: AssetMap, slots: TextSlot[]): { code: string; preview: string } {
+  const parts = extractComponentParts(html, assets, slots,
+    expr => `{{ ${expr} }}`,
+    (attr, expr) => `:${attr}="${expr}"`);
+
+  const script: string[] = parts.imports.slice();
+  if (parts.props.length > 0) {
+    if (script.length > 0) script.push('');
+    script.push('interface Props {');
+    for (const prop of parts.props) script.push(`  ${prop.name}?: ${prop.type}`);
+    script.push('}');
+    script.push('');
+    script.push('withDefaults(defineProps<Props>(), {');
+    for (const prop of parts.props) script.push(`  ${prop.name}: ${prop.defaultValue},`);
+    script.push('})');
+  }
+
+  let code = '';
+  if (script.length > 0) code += '<script setup lang="ts">\n' + script.join('\n') + '\n</script>\n\n';
+  code += '<template>\n' + parts.template.replace(/^(?=.)/gm, '  ') + '</template>\n';
+  return { code: code, preview: parts.preview };
+}
+
+// Svelte 5: props come from $props() with the design's values as destructuring defaults
+function buildSvelteComponent(html: string, assets: AssetMap, slots: TextSlot[]): { code: string; preview: string } {
+  const parts = extractComponentParts(html, assets, slots,
+    expr => `{${expr}}`,
+    (attr, expr) => `${attr}={${expr}}`);
+
+  const script: string[] = parts.imports.map(line => line + ';');
+  if (parts.props.length > 0) {
+    if (script.length > 0) script.push('');
+    script.push('interface Props {');
+    for (const prop of parts.props) script.push(`  ${prop.name}?: ${prop.type};`);
+    script.push('}');
+    script.push('');
+    script.push('let {');
+    for (const prop of parts.props) script.push(`  ${prop.name} = ${prop.defaultValue},`);
+    script.push('}: Props = $props();');
+  }
+
+  let code = '';
+  if (script.length > 0) code += '<script lang="ts">\n' + script.map(line => line ? '  ' + line : line).join('\n') + '\n</script>\n\n';
+  code += parts.template;
+  return { code: code, preview: parts.preview };
+}
+
+// ─── Per-document settings ───
+
+// Stored with setPluginData on the document, so everyone opening the file shares them
+const SETTINGS_KEY = 'settings';
+
+// Select values arrive as strings; numeric options are parsed once here
+function normalizeOptions(options: GenerateOptions): GenerateOptions {
+  const tolerance = Number(options.paletteTolerance);
+  options.paletteTolerance = isNaN(tolerance) ? DEFAULT_OPTIONS.paletteTolerance : tolerance;
+  return options;
+}
+
+function loadSettings() {
+  try {
+    const raw = figma.root.getPluginData(SETTINGS_KEY);
+    if (!raw) return;
+    const saved = JSON.parse(raw);
+    cachedOptions = normalizeOptions(Object.assign({}, DEFAULT_OPTIONS, saved.options));
+    cachedLayerSettings = Object.assign({}, cachedLayerSettings, saved.layer);
+    namingRules = normalizeNamingRules(saved.naming);
+  } catch (error) {
+    console.warn('Ignoring unreadable plugin settings:', error);
+  }
+}
+
+function saveSettings() {
+  try {
+    figma.root.setPluginData(SETTINGS_KEY, JSON.stringify({ options: cachedOptions, layer: cachedLayerSettings, naming: namingRules }));
+  } catch (error) {
+    // View-only files cannot store plugin data
+    console.warn('Could not save plugin settings:', error);
+  }
+}
+
+// Re-render the cached tokens after options or naming rules change
+function regenerateOutput() {
+  var themeOutput: CSSOutput | null = null;
+  var designTokens: { json: string; warnings: LintWarning[] } | null = null;
+  if (cachedSource === 'scan' && cachedScannedTokens) {
+    themeOutput = generateScannedCSS(cachedScannedTokens, cachedOptions);
+    designTokens = generateDesignTokens([], null, cachedScannedTokens);
+  } else if (cachedSource === 'variables' && (cachedCollections.length > 0 || cachedStyles)) {
+    themeOutput = generateTailwindCSS(cachedCollections, cachedStyles || { colors: [], textStyles: [], effects: [] }, cachedOptions);
+    designTokens = generateDesignTokens(cachedCollections, cachedStyles, null);
+  }
+  if (!themeOutput || !designTokens) return;
+  cachedNameWarnings = (themeOutput.warnings || []).concat(designTokens.warnings);
+  var output = renderOutputFormat(themeOutput, cachedOptions);
+  figma.ui.postMessage({
+    type: 'css-regenerated',
+    css: output.full,
+    sections: output.sections,
+    nameWarnings: cachedNameWarnings,
+    tokensJSON: designTokens.json,
+    tokensModule: generateTokensModule(themeOutput),
+  });
+}
+
+// ─── Library variables ───
+
+// Variable ids bound on layers (node properties and paints) in the scan scope, walked in batches like the
+// token scan. Resolves to null when cancelled, so a partial set is never mistaken for the whole file
+async function collectBoundVariableIds(scope: GenerateOptions['scanScope']): Promise<Set<string> | null> {
+  const ids = new Set<string>();
+  const addAliases = function(value: any) {
+    if (!value || typeof value !== 'object') return;
+    if (Array.isArray(value)) {
+      value.forEach(addAliases);
+      return;
+    }
+    if (value.type === 'VARIABLE_ALIAS' && typeof value.id === 'string') {
+      ids.add(value.id);
+      return;
+    }
+    for (const key of Object.keys(value)) addAliases(value[key]);
+  };
+
+  const walk = await walkScope(scope, 'extract', function(node) {
+    if ('boundVariables' in node) addAliases(node.boundVariables);
+    // Gradient stops carry their own bindings, which the recursive walk picks up
+    if ('fills' in node && Array.isArray(node.fills)) addAliases(node.fills);
+    if ('strokes' in node) addAliases(node.strokes);
+    if ('effects' in node) addAliases(node.effects);
+  });
+  return walk.completed ? ids : null;
+}
+
+// Look up a variable that isn't local, import it from its library and cache it (with its collection)
+async function importLibraryVariable(
+  id: string,
+  variablesMap: Map<string, Variable>,
+  collectionsMap?: Map<string, VariableCollection>
+): Promise<Variable | undefined> {
+  try {
+    let variable = await figma.variables.getVariableByIdAsync(id);
+    if (!variable) return undefined;
+    if (variable.remote) variable = await figma.variables.importVariableByKeyAsync(variable.key);
+    variablesMap.set(id, variable);
+    variablesMap.set(variable.id, variable);
+    if (collectionsMap && !collectionsMap.has(variable.variableCollectionId)) {
+      const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+      if (collection) collectionsMap.set(collection.id, collection);
+    }
+    return variable;
+  } catch (error) {
+    console.warn('Could not import library variable ' + id + ':', error);
+    return undefined;
+  }
+}
+
+// Library variables used in the scan scope: bound on layers or aliased by local variables, plus what they alias
+// in turn. Resolves to null when the layer walk is cancelled
+async function loadLibraryVariables(
+  localVariables: Variable[],
+  variablesMap: Map<string, Variable>,
+  collectionsMap: Map<string, VariableCollection>,
+  scope: GenerateOptions['scanScope']
+): Promise<Variable[] | null> {
+  const boundIds = await collectBoundVariableIds(scope);
+  if (!boundIds) return null;
+  const queue = Array.from(boundIds);
+  const queueAliases = function(variable: Variable) {
+    for (const modeId of Object.keys(variable.valuesByMode)) {
+      const value = variable.valuesByMode[modeId];
+      if (value && typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') queue.push(value.id);
+    }
+  };
+  localVariables.forEach(queueAliases);
+
+  const imported: Variable[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (variablesMap.has(id)) continue;
+    const variable = await importLibraryVariable(id, variablesMap, collectionsMap);
+    if (!variable || imported.indexOf(variable) !== -1) continue;
+    imported.push(variable);
+    queueAliases(variable);
+  }
+  return imported;
+}
+
+// Library name per collection key, for the origin comment (needs the teamlibrary permission)
+async function libraryNamesByCollectionKey(): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  try {
+    const libraryCollections = await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+    libraryCollections.forEach(c => names.set(c.key, c.libraryName));
+  } catch (error) {
+    console.warn('Library names unavailable:', error);
+  }
+  return names;
+}
+
+// ─── Tokenize (write-back) ───
+
+// Figma's COLOR variables take 0–1 channels; the alpha byte is only present for translucent colors
+function hexToRgba(hex: string): RGBA {
+  const raw = hex.replace('#', '');
+  return {
+    r: parseInt(raw.substring(0, 2), 16) / 255,
+    g: parseInt(raw.substring(2, 4), 16) / 255,
+    b: parseInt(raw.substring(4, 6), 16) / 255,
+    a: raw.length === 8 ? parseInt(raw.substring(6, 8), 16) / 255 : 1
+  };
+}
+
+const TOKENIZE_COLLECTION = 'Tailwind';
+const TOKENIZE_RADIUS_FIELDS: VariableBindableNodeField[] = ['topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius'];
+const TOKENIZE_SPACING_FIELDS: ('paddingTop' | 'paddingRight' | 'paddingBottom' | 'paddingLeft' | 'itemSpacing')[] = ['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'itemSpacing'];
+
+interface TokenizeResult {
+  colors: Map<string, Variable>;  // hex -> variable
+  spacing: Map<number, Variable>; // px -> variable
+  radii: Map<number, Variable>;   // px -> variable
+  created: number;
+  updated: number;
+}
+
+// Set by 'tokenize-file', consumed by 'tokenize-bind'
+let cachedTokenizeResult: TokenizeResult | null = null;
+
+// Creates (or refreshes) the "Tailwind" collection from scanned tokens, using the same names as the scan CSS
+async function createTailwindVariables(tokens: ScannedTokens): Promise<TokenizeResult> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const collection = collections.find(c => c.name === TOKENIZE_COLLECTION) || figma.variables.createVariableCollection(TOKENIZE_COLLECTION);
+  const modeId = collection.defaultModeId;
+  const existing = new Map<string, Variable>();
+  for (const variable of await figma.variables.getLocalVariablesAsync()) {
+    if (variable.variableCollectionId === collection.id) existing.set(variable.name, variable);
+  }
+
+  const result: TokenizeResult = { colors: new Map(), spacing: new Map(), radii: new Map(), created: 0, updated: 0 };
+  const upsert = function(path: string, category: string, type: VariableResolvedDataType, value: VariableValue, scopes: VariableScope[]): Variable {
+    let variable = existing.get(path);
+    if (variable && variable.resolvedType !== type) variable = undefined;
+    if (variable) {
+      result.updated++;
+    } else {
+      variable = figma.variables.createVariable(path, collection, type);
+      existing.set(path, variable);
+      result.created++;
+    }
+    variable.setValueForMode(modeId, value);
+    variable.scopes = scopes;
+    variable.setVariableCodeSyntax('WEB', `var(${toCSSVariableName(path, '', '', category, false)})`);
+    return variable;
+  };
+
+  // Colors — only raw ones; bound colors already have a variable or style
+  const { semantic, palette } = classifyColorsForTailwind(tokens.colors.filter(c => !c.token));
+  for (const c of semantic.concat(palette)) {
+    result.colors.set(c.hex, upsert('color/' + c.name, 'color', 'COLOR', hexToRgba(c.hex), ['ALL_FILLS', 'STROKE_COLOR']));
+  }
+  if (cachedOptions.colorRamps) {
+    for (const c of semantic) {
+      if (RAMP_COLOR_NAMES.indexOf(c.name) === -1 || c.hex.length > 7) continue;
+      for (const shade of generateColorRamp(c.hex)) {
+        upsert('color/' + c.name + '-' + shade.step, 'color', 'COLOR', hexToRgba(shade.hex), ['ALL_FILLS', 'STROKE_COLOR']);
+      }
+    }
+  }
+
+  // Font sizes — snapped to the text scale, stored in px
+  const usedTextNames = new Set<string>();
+  const fontSizes = [...new Set(tokens.typography.map(t => t.fontSize))].sort((a, b) => a - b);
+  for (const px of fontSizes) {
+    upsert('text/' + snapFontSizeToTailwind(px / 16, usedTextNames), 'text', 'FLOAT', px, ['FONT_SIZE']);
+  }
+
+  // Spacing — named by Tailwind step (px / 4), so p-4 reads the same in Figma and in code
+  for (const px of tokens.spacing) {
+    const step = TW_SPACING_MAP[px] !== undefined ? TW_SPACING_MAP[px] : String(parseFloat((px / 4).toFixed(2)));
+    result.spacing.set(px, upsert('spacing/' + step.replace('.', '-'), 'spacing', 'FLOAT', px, ['GAP', 'WIDTH_HEIGHT']));
+  }
+
+  // Radii
+  const usedRadiusNames = new Set<string>();
+  for (const px of [...tokens.radii].sort((a, b) => a - b)) {
+    result.radii.set(px, upsert('radius/' + snapRadiusToTailwind(px, usedRadiusNames), 'radius', 'FLOAT', px, ['CORNER_RADIUS']));
+  }
+
+  figma.commitUndo();
+  return result;
+}
+
+// Binds raw fills/strokes, paddings/gaps and corner radii that match a created variable.
+// With apply = false it only counts, so the UI can say what would change
+async function bindTokenizedValues(
+  result: TokenizeResult,
+  scope: GenerateOptions['scanScope'],
+  apply: boolean
+): Promise<{ fills: number; paddings: number; radii: number } | null> {
+  const counts = { fills: 0, paddings: 0, radii: 0 };
+
+  const bindPaints = function(paints: ReadonlyArray<Paint>, styleId: string | PluginAPI['mixed'] | undefined): Paint[] | null {
+    if (typeof styleId === 'string' && styleId) return null;
+    let changed = false;
+    const next = paints.map(paint => {
+      if (paint.type !== 'SOLID' || paint.visible === false) return paint;
+      if (paint.boundVariables && paint.boundVariables.color) return paint;
+      const variable = result.colors.get(rgbaToHex(paint.color.r, paint.color.g, paint.color.b, paint.opacity !== undefined ? paint.opacity : 1));
+      if (!variable) return paint;
+      counts.fills++;
+      changed = true;
+      if (!apply) return paint;
+      // The variable already carries the alpha, so the paint opacity goes back to 1
+      return Object.assign({}, figma.variables.setBoundVariableForPaint(paint, 'color', variable), { opacity: 1 });
+    });
+    return changed ? next : null;
+  };
+
+  const walk = await walkScope(scope, 'tokenize', function(node) {
+    if ('fills' in node && Array.isArray(node.fills)) {
+      const fills = bindPaints(node.fills, 'fillStyleId' in node ? node.fillStyleId : undefined);
+      if (fills && apply) node.fills = fills;
+    }
+    if ('strokes' in node && Array.isArray(node.strokes)) {
+      const strokes = bindPaints(node.strokes, 'strokeStyleId' in node ? node.strokeStyleId : undefined);
+      if (strokes && apply) node.strokes = strokes;
+    }
+
+    const bound: { [field: string]: unknown } = ('boundVariables' in node && node.boundVariables) || {};
+    if ('layoutMode' in node && node.layoutMode !== 'NONE') {
+      for (const field of TOKENIZE_SPACING_FIELDS) {
+        const variable = result.spacing.get(node[field]);
+        if (!variable || bound[field]) continue;
+        counts.paddings++;
+        if (apply) node.setBoundVariable(field, variable);
+      }
+    }
+
+    // The scan only collects uniform radii, so mixed corners are left alone. Ellipses, vectors and
+    // boolean operations have a cornerRadius but no per-corner fields to bind, so only corner mixins count
+    if ('topLeftRadius' in node && typeof node.cornerRadius === 'number' && node.cornerRadius > 0) {
+      const variable = result.radii.get(node.cornerRadius);
+      if (variable && !TOKENIZE_RADIUS_FIELDS.some(field => bound[field])) {
+        counts.radii++;
+        if (apply) {
+          for (const field of TOKENIZE_RADIUS_FIELDS) node.setBoundVariable(field, variable);
+        }
+      }
+    }
+  });
+
+  if (apply) figma.commitUndo();
+  return walk.completed ? counts : null;
+}
 
 // Main extraction function
 async function extractVariables() {
   try {
     const collections = await figma.variables.getLocalVariableCollectionsAsync();
-    const allVariables = await figma.variables.getLocalVariablesAsync();
+    let allVariables = await figma.variables.getLocalVariablesAsync();
 
     const variablesMap = new Map<string, Variable>();
     allVariables.forEach(v => variablesMap.set(v.id, v));
+    const collectionsMap = new Map<string, VariableCollection>();
+    collections.forEach(c => collectionsMap.set(c.id, c));
+
+    const includeLibraries = cachedOptions.includeLibraries;
+    const libraryNames = new Map<string, string>();
+    if (includeLibraries) {
+      if (refuseEmptySelection(cachedOptions.scanScope, 'extract')) return;
+      const libraryVariables = await loadLibraryVariables(allVariables, variablesMap, collectionsMap, cachedOptions.scanScope);
+      if (!libraryVariables) {
+        figma.ui.postMessage({ type: 'scan-cancelled' });
+        return;
+      }
+      allVariables = allVariables.concat(libraryVariables);
+      for (const collection of collectionsMap.values()) {
+        if (collections.indexOf(collection) === -1) collections.push(collection);
+      }
+      if (collections.some(c => c.remote)) {
+        (await libraryNamesByCollectionKey()).forEach((name, key) => libraryNames.set(key, name));
+      }
+    }
 
     const collectionsData: CollectionData[] = [];
 
@@ -3962,16 +6654,22 @@ async function extractVariables() {
 
       for (const variable of collectionVars) {
         for (const mode of collection.modes) {
-          const resolvedValue = await resolveVariableValue(variable, mode.modeId, variablesMap);
+          const resolvedValue = await resolveVariableValue(variable, mode.modeId, variablesMap, collectionsMap, includeLibraries);
+          const rawValue = variable.valuesByMode[mode.modeId];
+          const isAlias = rawValue && typeof rawValue === 'object' && 'type' in rawValue && rawValue.type === 'VARIABLE_ALIAS';
 
           if (resolvedValue !== null) {
             collectionVariables.push({
+              id: variable.id,
               name: variable.name,
               variableValue: resolvedValue,
               variableType: variable.resolvedType,
               resolvedDataType: variable.resolvedType,
               collection: collection.name,
-              mode: mode.name
+              mode: mode.name,
+              aliasOf: isAlias ? (rawValue as VariableAlias).id : undefined,
+              scopes: variable.scopes ? variable.scopes.slice() : [],
+              webName: variable.codeSyntax && variable.codeSyntax.WEB ? codeSyntaxToCSSName(variable.codeSyntax.WEB) : undefined
             });
           }
         }
@@ -3980,7 +6678,9 @@ async function extractVariables() {
       collectionsData.push({
         name: collection.name,
         modes: collection.modes.map(m => ({ modeId: m.modeId, name: m.name })),
-        variables: collectionVariables
+        defaultMode: (collection.modes.find(m => m.modeId === collection.defaultModeId) || collection.modes[0]).name,
+        variables: collectionVariables,
+        library: collection.remote ? (libraryNames.get(collection.key) || 'Team library') : undefined
       });
     }
 
@@ -4022,9 +6722,15 @@ async function extractVariables() {
     // If no variables or styles found, fall back to node scanning
     if (totalVars === 0 && totalStyles === 0) {
       console.log('No variables or styles found, falling back to node scan...');
-      const scannedTokens = scanNodesForTokens();
+      if (refuseEmptySelection(cachedOptions.scanScope, 'extract')) return;
+      const scannedTokens = await scanNodesForTokens(cachedOptions.scanScope, 'extract');
+      if (!scannedTokens) {
+        figma.ui.postMessage({ type: 'scan-cancelled' });
+        return;
+      }
       cachedScannedTokens = scannedTokens;
       cachedSource = 'scan';
+      cachedNameWarnings = [];
       const tokenCount = scannedTokens.colors.length + scannedTokens.typography.length +
         scannedTokens.spacing.length + scannedTokens.radii.length +
         scannedTokens.shadows.length + scannedTokens.gradients.length +
@@ -4040,7 +6746,8 @@ async function extractVariables() {
         animations: scannedTokens.animations.length
       });
 
-      const output = generateScannedCSS(scannedTokens);
+      const themeOutput = generateScannedCSS(scannedTokens, cachedOptions);
+      const output = renderOutputFormat(themeOutput, cachedOptions);
       const lintWarnings = lintTokens(scannedTokens);
 
       figma.ui.postMessage({
@@ -4053,6 +6760,8 @@ async function extractVariables() {
           tokenCount,
           css: output.full,
           sections: output.sections,
+          tokensJSON: generateDesignTokens([], null, scannedTokens).json,
+          tokensModule: generateTokensModule(themeOutput),
           lintWarnings,
         }
       });
@@ -4107,19 +6816,39 @@ figma.ui.onmessage = async function(msg) {
   if (msg.type === 'extract') {
     await extractVariables();
   } else if (msg.type === 'generate-css') {
-    var output = generateTailwindCSS(msg.data.collections, msg.data.styles, cachedOptions);
-    figma.ui.postMessage({ type: 'css-generated', css: output.full, sections: output.sections });
+    var themeOutput = generateTailwindCSS(msg.data.collections, msg.data.styles, cachedOptions);
+    var designTokens = generateDesignTokens(msg.data.collections, msg.data.styles, null);
+    cachedNameWarnings = (themeOutput.warnings || []).concat(designTokens.warnings);
+    var output = renderOutputFormat(themeOutput, cachedOptions);
+    figma.ui.postMessage({
+      type: 'css-generated',
+      css: output.full,
+      sections: output.sections,
+      nameWarnings: cachedNameWarnings,
+      tokensJSON: designTokens.json,
+      tokensModule: generateTokensModule(themeOutput),
+    });
   } else if (msg.type === 'update-options') {
-    cachedOptions = Object.assign({}, DEFAULT_OPTIONS, msg.options);
-    var newOutput: CSSOutput | null = null;
-    if (cachedSource === 'scan' && cachedScannedTokens) {
-      newOutput = generateScannedCSS(cachedScannedTokens, cachedOptions);
-    } else if (cachedSource === 'variables' && (cachedCollections.length > 0 || cachedStyles)) {
-      newOutput = generateTailwindCSS(cachedCollections, cachedStyles || { colors: [], textStyles: [], effects: [] }, cachedOptions);
-    }
-    if (newOutput) {
-      figma.ui.postMessage({ type: 'css-regenerated', css: newOutput.full, sections: newOutput.sections });
-    }
+    // These change what is extracted, not just how it is rendered
+    var needsExtract = msg.options.includeLibraries !== cachedOptions.includeLibraries ||
+      msg.options.scanScope !== cachedOptions.scanScope;
+    cachedOptions = normalizeOptions(Object.assign({}, DEFAULT_OPTIONS, msg.options));
+    saveSettings();
+    if (needsExtract) {
+      cachedScannedTokens = null;
+      await extractVariables();
+    } else {
+      regenerateOutput();
+    }
+  } else if (msg.type === 'update-naming') {
+    // naming: null resets to the built-in rules
+    namingRules = normalizeNamingRules(msg.naming);
+    saveSettings();
+    figma.ui.postMessage({ type: 'naming-applied', naming: namingRules });
+    regenerateOutput();
+  } else if (msg.type === 'update-layer-settings') {
+    cachedLayerSettings = { generateCSS: msg.generateCSS === true, jsxMode: msg.jsxMode === true, vueMode: msg.vueMode === true, svelteMode: msg.svelteMode === true };
+    saveSettings();
   } else if (msg.type === 'generate-layer') {
     const selection = figma.currentPage.selection;
     if (selection.length === 0) {
@@ -4129,36 +6858,74 @@ figma.ui.onmessage = async function(msg) {
     const node = selection[0];
     const generateCSS = msg.generateCSS === true;
     const jsxMode = msg.jsxMode === true;
-
-    // Reset asset counter for each generation run
+    // Components become a React component with their properties as props; a set renders its default variant
+    const componentRoot = !jsxMode ? null
+      : node.type === 'COMPONENT_SET' ? node.defaultVariant
+      : node.type === 'COMPONENT' ? node : null;
+    // Variants are named after their set
+    const componentNameSource = componentRoot && componentRoot.parent && componentRoot.parent.type === 'COMPONENT_SET' ? componentRoot.parent : node;
+    const vueMode = !jsxMode && msg.vueMode === true;
+    const svelteMode = !jsxMode && !vueMode && msg.svelteMode === true;
+
+    // Reset asset counter and palette snaps for each generation run
     assetCounter = 0;
+    paletteSnaps = new Map();
     const assets: AssetMap = {};
     const usedFileNames = new Set<string>();
 
     let html: string;
     let css: string | undefined;
+    let previewHtml: string | undefined;
+    let componentFile: { fileName: string; code: string } | undefined;
 
     try {
       if (jsxMode) {
         const importCollector = new ImportCollector();
-        if (generateCSS) {
-          const registry = createTokenRegistry();
-          html = await generateLayerJSXWithRegistry(node, 0, true, false, registry, assets, usedFileNames, importCollector);
-          css = buildThemeCSS(registry);
+        const root = componentRoot || node;
+        const registry = generateCSS ? createTokenRegistry() : null;
+        if (componentRoot) {
+          jsxComponentProps = createComponentPropContext(componentRoot, componentPropertyDefinitionsOf(node as ComponentNode | ComponentSetNode));
+        }
+        jsxSubComponents = await createSubComponentContext(root, [toComponentName(componentNameSource.name)]);
+        if (registry) {
+          html = await generateLayerJSXWithRegistry(root, 0, true, false, registry, assets, usedFileNames, importCollector);
         } else {
-          html = await generateLayerJSX(node, 0, true, false, assets, usedFileNames, importCollector);
+          html = await generateLayerJSX(root, 0, true, false, assets, usedFileNames, importCollector);
         }
-        // Prepend imports
         const imports = importCollector.generate();
-        if (imports) {
-          html = imports + '\n' + html;
+        const definitions = buildSubComponentDefinitions(jsxSubComponents);
+        if (jsxComponentProps) {
+          // A selected set gets a cva recipe for its variants' root classes; the markup is the default variant's
+          const recipe = node.type === 'COMPONENT_SET' ? buildVariantRecipe(node, jsxComponentProps, registry) : null;
+          html = buildReactComponent(toComponentName(componentNameSource.name), html, imports, jsxComponentProps, recipe, definitions);
+        } else {
+          // Prepend imports and sub-components
+          if (definitions) html = definitions + '\n' + html;
+          if (imports) html = imports + '\n' + html;
         }
-      } else if (generateCSS) {
-        const registry = createTokenRegistry();
-        html = await generateLayerHTMLWithRegistry(node, 0, true, false, registry, assets, usedFileNames);
-        css = buildThemeCSS(registry);
+        // After the recipe, so tokens used only by other variants reach @theme
+        if (registry) css = buildThemeCSS(registry, cachedOptions.colorFormat);
       } else {
-        html = await generateLayerHTML(node, 0, true, false, assets, usedFileNames);
+        // Component files reuse the HTML tree walk, collecting text layers as props on the way
+        if (vueMode || svelteMode) layerTextSlots = [];
+        if (generateCSS) {
+          const registry = createTokenRegistry();
+          html = await generateLayerHTMLWithRegistry(node, 0, true, false, registry, assets, usedFileNames);
+          css = buildThemeCSS(registry, cachedOptions.colorFormat);
+        } else {
+          html = await generateLayerHTML(node, 0, true, false, assets, usedFileNames);
+        }
+        if (vueMode) {
+          const sfc = buildVueSFC(html, assets, layerTextSlots!);
+          componentFile = { fileName: toComponentName(node.name) + '.vue', code: sfc.code };
+          previewHtml = sfc.preview;
+          html = sfc.code;
+        } else if (svelteMode) {
+          const svelte = buildSvelteComponent(html, assets, layerTextSlots!);
+          componentFile = { fileName: toComponentName(node.name) + '.svelte', code: svelte.code };
+          previewHtml = svelte.preview;
+          html = svelte.code;
+        }
       }
 
       // Extract font families from generated HTML for preview font loading
@@ -4176,9 +6943,15 @@ figma.ui.onmessage = async function(msg) {
         html: html,
         css: css,
         jsxMode: jsxMode,
+        framework: jsxMode ? 'react' : vueMode ? 'vue' : svelteMode ? 'svelte' : 'html',
+        previewHtml: previewHtml,
+        componentFile: componentFile,
         assets: Object.keys(assets).length > 0 ? assets : undefined,
         nodeInfo: { name: node.name, width: Math.round(node.width), height: Math.round(node.height) },
         fontFamilies: fontFamilies.length > 0 ? fontFamilies : undefined,
+        snaps: Array.from(paletteSnaps.entries())
+          .map(([hex, match]) => ({ hex: hex, name: match.name, deltaE: Math.round(match.deltaE * 100) / 100 }))
+          .sort((a, b) => b.deltaE - a.deltaE),
       });
     } catch (error) {
       figma.ui.postMessage({
@@ -4186,16 +6959,69 @@ figma.ui.onmessage = async function(msg) {
         html: '',
         error: error instanceof Error ? error.message : 'Generation failed'
       });
+    } finally {
+      layerTextSlots = null;
+      jsxComponentProps = null;
+      jsxSubComponents = null;
+    }
+  } else if (msg.type === 'cancel-scan') {
+    for (const scan of activeScans) scan.cancelled = true;
+  } else if (msg.type === 'tokenize-file') {
+    if (refuseEmptySelection(cachedOptions.scanScope, 'tokenize')) return;
+    try {
+      let tokens = cachedScannedTokens;
+      if (!tokens) {
+        tokens = await scanNodesForTokens(cachedOptions.scanScope, 'tokenize');
+        if (!tokens) {
+          figma.ui.postMessage({ type: 'tokenize-cancelled' });
+          return;
+        }
+        cachedScannedTokens = tokens;
+      }
+      cachedTokenizeResult = await createTailwindVariables(tokens);
+      const bindable = await bindTokenizedValues(cachedTokenizeResult, cachedOptions.scanScope, false);
+      if (!bindable) {
+        figma.ui.postMessage({ type: 'tokenize-cancelled' });
+        return;
+      }
+      figma.ui.postMessage({
+        type: 'tokenize-created',
+        collection: TOKENIZE_COLLECTION,
+        created: cachedTokenizeResult.created,
+        updated: cachedTokenizeResult.updated,
+        bindable: bindable
+      });
+    } catch (error) {
+      console.error('Tokenize failed:', error);
+      figma.ui.postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Tokenize failed' });
+    }
+  } else if (msg.type === 'tokenize-bind') {
+    if (!cachedTokenizeResult || refuseEmptySelection(cachedOptions.scanScope, 'tokenize')) return;
+    try {
+      const counts = await bindTokenizedValues(cachedTokenizeResult, cachedOptions.scanScope, true);
+      cachedTokenizeResult = null;
+      figma.ui.postMessage({ type: 'tokenize-bound', counts: counts, cancelled: !counts });
+      if (counts) figma.notify(`Bound ${counts.fills} colors, ${counts.paddings} paddings and ${counts.radii} radii`);
+      // The file now has variables, so the next extraction reads them instead of scanning
+      await extractVariables();
+    } catch (error) {
+      console.error('Binding failed:', error);
+      figma.ui.postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Binding failed' });
     }
   } else if (msg.type === 'run-lint') {
     try {
       // Run lint on cached tokens or re-scan
       let tokens = cachedScannedTokens;
       if (!tokens) {
-        tokens = scanNodesForTokens();
+        if (refuseEmptySelection(cachedOptions.scanScope, 'lint')) return;
+        tokens = await scanNodesForTokens(cachedOptions.scanScope, 'lint');
+        if (!tokens) {
+          figma.ui.postMessage({ type: 'lint-results', warnings: [], cancelled: true });
+          return;
+        }
         cachedScannedTokens = tokens;
       }
-      const warnings = lintTokens(tokens);
+      const warnings = cachedNameWarnings.concat(lintTokens(tokens));
       figma.ui.postMessage({ type: 'lint-results', warnings: warnings });
     } catch (error) {
       console.error('Lint failed:', error);
@@ -4216,6 +7042,8 @@ figma.ui.onmessage = async function(msg) {
 console.log('Starting auto-extract...');
 (async () => {
   try {
+    loadSettings();
+    figma.ui.postMessage({ type: 'settings-loaded', options: cachedOptions, layer: cachedLayerSettings, naming: namingRules });
     await extractVariables();
     console.log('Auto-extract completed successfully');
   } catch (error) {
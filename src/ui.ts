@@ -22,7 +22,14 @@ document.addEventListener("DOMContentLoaded", () => {
 
   let currentCSS = '';
   let currentSections: { label: string; css: string }[] = [];
+  let currentTokensJSON = '';
+  let currentTokensModule = '';
+  let showingNameWarnings = false;
   let currentLayerHTML = '';
+  // Vue/Svelte output: markup for the live preview and ZIP, and the component file itself
+  let currentLayerPreviewHTML = '';
+  let currentComponentFile: { fileName: string; code: string } | null = null;
+  let currentFramework = 'html';
   let currentLayerCSS = '';
   let currentAssets: AssetMap = {};
   let currentFontFamilies: string[] = [];
@@ -39,6 +46,10 @@ document.addEventListener("DOMContentLoaded", () => {
   const optionsPanel = document.getElementById('options-panel') as HTMLDivElement;
   const optionsToggle = document.getElementById('options-toggle') as HTMLDivElement;
   const optionsCountEl = document.getElementById('options-count') as HTMLSpanElement;
+  const namingPanel = document.getElementById('naming-panel') as HTMLDivElement;
+  const namingToggle = document.getElementById('naming-toggle') as HTMLDivElement;
+  const namingSummaryEl = document.getElementById('naming-summary') as HTMLSpanElement;
+  const namingResetBtn = document.getElementById('naming-reset-btn') as HTMLButtonElement;
 
   // Tab elements
   const tabBar = document.getElementById('tab-bar') as HTMLDivElement;
@@ -68,6 +79,9 @@ document.addEventListener("DOMContentLoaded", () => {
 
   // Layer CSS elements
   const layerJSXToggle = document.getElementById('layer-jsx-mode') as HTMLInputElement;
+  const layerVueToggle = document.getElementById('layer-vue-mode') as HTMLInputElement;
+  const layerSvelteToggle = document.getElementById('layer-svelte-mode') as HTMLInputElement;
+  const layerPreviewLabel = document.getElementById('layer-preview-label') as HTMLSpanElement;
   const layerCSSToggle = document.getElementById('layer-css-toggle') as HTMLInputElement;
   const layerCSSSection = document.getElementById('layer-css-section') as HTMLDivElement;
   const layerCSSPreview = document.getElementById('layer-css-preview') as HTMLElement;
@@ -77,6 +91,7 @@ document.addEventListener("DOMContentLoaded", () => {
   const previewLayerBtn = document.getElementById('preview-layer-btn') as HTMLButtonElement;
   const downloadZipBtn = document.getElementById('download-zip-btn') as HTMLButtonElement;
   const layerSecondaryActions = document.getElementById('layer-secondary-actions') as HTMLDivElement;
+  const layerSnaps = document.getElementById('layer-snaps') as HTMLDivElement;
 
   // Live preview modal elements
   const livePreviewBackdrop = document.getElementById('live-preview-backdrop') as HTMLDivElement;
@@ -96,17 +111,42 @@ document.addEventListener("DOMContentLoaded", () => {
   // Sections container
   const sectionsContainer = document.getElementById('sections-container') as HTMLDivElement;
 
+  // Design token (DTCG) export buttons
+  const copyJSONBtn = document.getElementById('copy-json-btn') as HTMLButtonElement;
+  const downloadJSONBtn = document.getElementById('download-json-btn') as HTMLButtonElement;
+  const copyTSBtn = document.getElementById('copy-ts-btn') as HTMLButtonElement;
+  const downloadTSBtn = document.getElementById('download-ts-btn') as HTMLButtonElement;
+
+  // Tokenize (write-back) elements
+  const tokenizeBtn = document.getElementById('tokenize-btn') as HTMLButtonElement;
+  const tokenizeText = document.getElementById('tokenize-text') as HTMLSpanElement;
+  const tokenizePanel = document.getElementById('tokenize-panel') as HTMLDivElement;
+  const tokenizeMessage = document.getElementById('tokenize-message') as HTMLDivElement;
+  const tokenizeBindBtn = document.getElementById('tokenize-bind-btn') as HTMLButtonElement;
+  const tokenizeSkipBtn = document.getElementById('tokenize-skip-btn') as HTMLButtonElement;
+
   // ─── Options state ───
 
   const CATEGORY_KEYS = ['colors', 'fontFamilies', 'fontSizes', 'lineHeights', 'fontWeights', 'spacing', 'borderRadius', 'shadows', 'gradients', 'animations'];
-  const ALL_KEYS = [...CATEGORY_KEYS, 'scalableFontSize', 'defaultClasses'];
+  const ALL_KEYS = [...CATEGORY_KEYS, 'scalableFontSize', 'defaultClasses', 'preserveAliases', 'includeLibraries', 'colorRamps'];
+  const SELECT_KEYS = ['modeSelector', 'outputFormat', 'nameCollisions', 'textStyleOutput', 'scanScope', 'colorFormat'];
+  // Selects whose option values are numbers
+  const NUMBER_KEYS = ['paletteTolerance'];
 
-  function getOptions(): Record<string, boolean> {
-    const opts: Record<string, boolean> = {};
+  function getOptions(): Record<string, boolean | string | number> {
+    const opts: Record<string, boolean | string | number> = {};
     for (const key of ALL_KEYS) {
       const input = document.querySelector(`[data-opt="${key}"]`) as HTMLInputElement | null;
       opts[key] = input ? input.checked : true;
     }
+    for (const key of SELECT_KEYS) {
+      const select = document.querySelector(`[data-opt="${key}"]`) as HTMLSelectElement | null;
+      if (select) opts[key] = select.value;
+    }
+    for (const key of NUMBER_KEYS) {
+      const select = document.querySelector(`[data-opt="${key}"]`) as HTMLSelectElement | null;
+      if (select) opts[key] = Number(select.value);
+    }
     return opts;
   }
 
@@ -132,6 +172,30 @@ document.addEventListener("DOMContentLoaded", () => {
     });
   });
 
+  // Restore saved settings without triggering change events
+  function applySettings(options: Record<string, boolean | string | number>, layer: { generateCSS: boolean; jsxMode: boolean; vueMode?: boolean; svelteMode?: boolean }) {
+    for (const key of ALL_KEYS) {
+      const input = document.querySelector(`[data-opt="${key}"]`) as HTMLInputElement | null;
+      if (input && typeof options[key] === 'boolean') input.checked = options[key] as boolean;
+    }
+    for (const key of SELECT_KEYS) {
+      const select = document.querySelector(`[data-opt="${key}"]`) as HTMLSelectElement | null;
+      if (select && typeof options[key] === 'string') select.value = options[key] as string;
+    }
+    for (const key of NUMBER_KEYS) {
+      const select = document.querySelector(`[data-opt="${key}"]`) as HTMLSelectElement | null;
+      if (select && typeof options[key] === 'number') select.value = String(options[key]);
+    }
+    if (layer) {
+      layerCSSToggle.checked = layer.generateCSS;
+      layerJSXToggle.checked = layer.jsxMode;
+      layerVueToggle.checked = layer.vueMode === true && !layer.jsxMode;
+      layerSvelteToggle.checked = layer.svelteMode === true && !layer.jsxMode && !layerVueToggle.checked;
+    }
+    updateOptionsCount();
+    copyText.textContent = copyButtonLabel();
+  }
+
   function sendOptionsUpdate() {
     const opts = getOptions();
     parent.postMessage({
@@ -139,6 +203,95 @@ document.addEventListener("DOMContentLoaded", () => {
     }, '*');
   }
 
+  // ─── Naming rules ───
+
+  interface NamingRules {
+    prefix: string;
+    casing: string;
+    keepCollection: boolean;
+    groupNoise: string[];
+    categoryNoise: Record<string, string[]>;
+    renames: { find: string; replace: string }[];
+  }
+
+  function namingInput<T extends HTMLElement>(key: string): T {
+    return document.querySelector(`[data-naming="${key}"]`) as T;
+  }
+
+  const noiseInputs = document.querySelectorAll('[data-noise]') as NodeListOf<HTMLInputElement>;
+
+  function splitWords(value: string): string[] {
+    return value.split(',').map(w => w.trim()).filter(w => w.length > 0);
+  }
+
+  // "find => replace" per line; a line without "=>" deletes its match
+  function parseRenames(value: string): { find: string; replace: string }[] {
+    return value.split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const arrow = line.indexOf('=>');
+        if (arrow === -1) return { find: line, replace: '' };
+        return { find: line.slice(0, arrow).trim(), replace: line.slice(arrow + 2).trim() };
+      });
+  }
+
+  function getNamingRules(): NamingRules {
+    const categoryNoise: Record<string, string[]> = {};
+    noiseInputs.forEach(input => {
+      categoryNoise[input.dataset.noise!] = splitWords(input.value);
+    });
+    return {
+      prefix: namingInput<HTMLInputElement>('prefix').value.trim(),
+      casing: namingInput<HTMLSelectElement>('casing').value,
+      keepCollection: namingInput<HTMLInputElement>('keepCollection').checked,
+      groupNoise: splitWords(namingInput<HTMLInputElement>('groupNoise').value),
+      categoryNoise: categoryNoise,
+      renames: parseRenames(namingInput<HTMLTextAreaElement>('renames').value),
+    };
+  }
+
+  function updateNamingSummary(rules: NamingRules) {
+    const sample = (rules.prefix ? `--${rules.prefix}-` : '--') + 'color-…';
+    namingSummaryEl.textContent = rules.renames.length > 0 ? `${sample} +${rules.renames.length}` : sample;
+  }
+
+  function applyNamingRules(rules: NamingRules) {
+    if (!rules) return;
+    namingInput<HTMLInputElement>('prefix').value = rules.prefix;
+    namingInput<HTMLSelectElement>('casing').value = rules.casing;
+    namingInput<HTMLInputElement>('keepCollection').checked = rules.keepCollection;
+    namingInput<HTMLInputElement>('groupNoise').value = rules.groupNoise.join(', ');
+    noiseInputs.forEach(input => {
+      input.value = (rules.categoryNoise[input.dataset.noise!] || []).join(', ');
+    });
+    namingInput<HTMLTextAreaElement>('renames').value = rules.renames.map(r => `${r.find} => ${r.replace}`).join('\n');
+    updateNamingSummary(rules);
+  }
+
+  function sendNamingUpdate(rules: NamingRules | null) {
+    parent.postMessage({
+      pluginMessage: { type: 'update-naming', naming: rules }
+    }, '*');
+  }
+
+  namingToggle.addEventListener('click', () => {
+    namingPanel.classList.toggle('open');
+  });
+
+  // Text fields fire 'change' on blur/enter, so the output isn't rebuilt on every keystroke
+  document.querySelectorAll('[data-naming], [data-noise]').forEach(input => {
+    input.addEventListener('change', () => {
+      const rules = getNamingRules();
+      updateNamingSummary(rules);
+      sendNamingUpdate(rules);
+    });
+  });
+
+  namingResetBtn.addEventListener('click', () => {
+    sendNamingUpdate(null);
+  });
+
   // ─── Tab switching ───
 
   let activeTab = 'tokens';
@@ -175,17 +328,22 @@ document.addEventListener("DOMContentLoaded", () => {
     return raw
       .split('\n')
       .map(line => {
-        if (/^\s*\/\*/.test(line)) {
+        if (/^\s*(\/\*|\/\/)/.test(line)) {
           return `<span class="syn-comment">${escapeHtml(line)}</span>`;
         }
-        if (/^\s*@theme/.test(line)) {
-          return line.replace(/@theme/, '<span class="syn-at">@theme</span>')
+        if (/^\s*@(theme|media|utility|mixin)\b/.test(line)) {
+          return escapeHtml(line).replace(/@(theme|media|utility|mixin)/, '<span class="syn-at">@$1</span>')
                      .replace(/\{/, '<span class="syn-brace">{</span>');
         }
+        // Mode override selectors: .dark {, [data-theme="dark"] {, :root {
+        if (/^\s*[.:\[][^{]*\{\s*$/.test(line)) {
+          return escapeHtml(line).replace(/^(\s*)(.*?)(\s*)\{/, '$1<span class="syn-tag">$2</span>$3<span class="syn-brace">{</span>');
+        }
         if (/^\s*\}/.test(line)) {
           return `<span class="syn-brace">${escapeHtml(line)}</span>`;
         }
-        const match = line.match(/^(\s*)(--[\w-]+)(:)(\s*)(.+)(;)$/);
+        // CSS properties and custom properties plus SCSS ($name) and Less (@name) variables
+        const match = line.match(/^(\s*)((?:--|\$|@)?[\w-]+)(:)(\s*)(.+)(;)$/);
         if (match) {
           const [, indent, prop, colon, space, value, semi] = match;
           return `${indent}<span class="syn-prop">${escapeHtml(prop)}</span><span class="syn-punct">${colon}</span>${space}<span class="syn-value">${highlightValue(value)}</span><span class="syn-punct">${semi}</span>`;
@@ -195,6 +353,42 @@ document.addEventListener("DOMContentLoaded", () => {
       .join('\n');
   }
 
+  // Highlighter for generated TypeScript (tailwind.config.ts)
+  function highlightTS(raw: string): string {
+    return raw
+      .split('\n')
+      .map(line => {
+        if (/^\s*\/\//.test(line)) {
+          return `<span class="syn-comment">${escapeHtml(line)}</span>`;
+        }
+        // Odd parts are string literals
+        return line.split(/('(?:[^'\\]|\\.)*')/).map((part, i) => {
+          if (i % 2 === 1) return `<span class="syn-value">${escapeHtml(part)}</span>`;
+          return escapeHtml(part)
+            .replace(/\b(import|type|from|export|default|satisfies|as|const)\b/g, '<span class="syn-at">$1</span>')
+            .replace(/([\w$]+)(:)/g, '<span class="syn-prop">$1</span><span class="syn-punct">$2</span>');
+        }).join('');
+      })
+      .join('\n');
+  }
+
+  function getOutputFormat(): string {
+    const select = document.querySelector('[data-opt="outputFormat"]') as HTMLSelectElement | null;
+    return select ? select.value : 'css';
+  }
+
+  function highlightOutput(raw: string): string {
+    return getOutputFormat() === 'tailwind-v3' ? highlightTS(raw) : highlightCSS(raw);
+  }
+
+  function copyButtonLabel(): string {
+    const format = getOutputFormat();
+    if (format === 'tailwind-v3') return 'Copy Config';
+    if (format === 'scss') return 'Copy SCSS';
+    if (format === 'less') return 'Copy Less';
+    return 'Copy CSS';
+  }
+
   function highlightHTML(raw: string): string {
     return raw
       .split('\n')
@@ -260,7 +454,8 @@ document.addEventListener("DOMContentLoaded", () => {
   function updatePreview(css: string) {
     previousCSS = currentCSS;
     currentCSS = css;
-    cssPreview.innerHTML = highlightCSS(css);
+    cssPreview.innerHTML = highlightOutput(css);
+    copyText.textContent = copyButtonLabel();
   }
 
   // ─── Per-section copy buttons ───
@@ -474,6 +669,27 @@ document.addEventListener("DOMContentLoaded", () => {
     lintResults.innerHTML = html;
   }
 
+  // Name collisions arrive with every generate; only replace the Lint tab when there are some to show or clear
+  function renderNameWarnings(warnings: { category: string; message: string; severity: string; suggestion: string }[]) {
+    if (!warnings) return;
+    if (warnings.length > 0 || showingNameWarnings) renderLintResults(warnings);
+    showingNameWarnings = warnings.length > 0;
+  }
+
+  // Colors that were moved onto Tailwind's palette by Options → Palette Tolerance
+  function renderPaletteSnaps(snaps: { hex: string; name: string; deltaE: number }[]) {
+    if (!layerSnaps) return;
+    if (snaps.length === 0) {
+      layerSnaps.style.display = 'none';
+      layerSnaps.innerHTML = '';
+      return;
+    }
+    layerSnaps.innerHTML = `<strong>Snapped to Tailwind palette (${snaps.length})</strong><br>` + snaps
+      .map(s => `<code>${escapeHtml(s.hex)}</code> → <code>${escapeHtml(s.name)}</code> (ΔE ${s.deltaE})`)
+      .join('<br>');
+    layerSnaps.style.display = 'block';
+  }
+
   // ─── Clipboard helper ───
 
   function copyToClipboard(text: string) {
@@ -501,20 +717,35 @@ document.addEventListener("DOMContentLoaded", () => {
     const msg = event.data.pluginMessage;
     if (!msg) return;
 
-    if (msg.type === 'variables-extracted') {
+    if (msg.type === 'settings-loaded') {
+      applySettings(msg.options || {}, msg.layer);
+      applyNamingRules(msg.naming);
+
+    } else if (msg.type === 'naming-applied') {
+      applyNamingRules(msg.naming);
+
+    } else if (msg.type === 'variables-extracted') {
       const source: string = msg.source || 'variables';
 
       if (sourceBadge) {
         if (source === 'scan') {
-          sourceBadge.textContent = 'Design Scan';
+          // "Selection: Card, Header" -> "Design Scan · Selection", full label on hover
+          const scope: string = (msg.data.scannedTokens && msg.data.scannedTokens.scope) || '';
+          sourceBadge.textContent = scope ? 'Design Scan · ' + scope.split(/[:(]/)[0].trim() : 'Design Scan';
+          sourceBadge.title = scope;
           sourceBadge.className = 'source-badge source-scan';
         } else {
           sourceBadge.textContent = 'Variables';
+          sourceBadge.title = '';
           sourceBadge.className = 'source-badge source-variables';
         }
         sourceBadge.style.display = 'inline-block';
       }
 
+      // Writing variables back only makes sense when the file has none yet
+      if (tokenizeBtn) tokenizeBtn.style.display = source === 'scan' ? '' : 'none';
+      resetTokenize();
+
       if (source === 'scan') {
         const tokenCount = msg.data.tokenCount || 0;
 
@@ -543,6 +774,8 @@ document.addEventListener("DOMContentLoaded", () => {
 
         updatePreview(msg.data.css);
         if (msg.data.sections) renderSections(msg.data.sections);
+        currentTokensJSON = msg.data.tokensJSON || '';
+        currentTokensModule = msg.data.tokensModule || '';
         if (msg.data.lintWarnings) renderLintResults(msg.data.lintWarnings);
         showApp();
         return;
@@ -580,11 +813,17 @@ document.addEventListener("DOMContentLoaded", () => {
     } else if (msg.type === 'css-generated') {
       updatePreview(msg.css);
       if (msg.sections) renderSections(msg.sections);
+      currentTokensJSON = msg.tokensJSON || '';
+      currentTokensModule = msg.tokensModule || '';
+      renderNameWarnings(msg.nameWarnings);
       showApp();
 
     } else if (msg.type === 'css-regenerated') {
       updatePreview(msg.css);
       if (msg.sections) renderSections(msg.sections);
+      renderNameWarnings(msg.nameWarnings);
+      if (msg.tokensJSON !== undefined) currentTokensJSON = msg.tokensJSON;
+      if (msg.tokensModule !== undefined) currentTokensModule = msg.tokensModule;
 
     } else if (msg.type === 'selection-changed') {
       // Update layer tab UI based on selection
@@ -609,19 +848,27 @@ document.addEventListener("DOMContentLoaded", () => {
       if (msg.error) {
         layerPreview.innerHTML = `<span class="syn-comment">/* ${escapeHtml(msg.error)} */</span>`;
         currentLayerHTML = '';
+        currentLayerPreviewHTML = '';
+        currentComponentFile = null;
         currentLayerCSS = '';
         currentAssets = {};
         downloadZipBtn.style.display = 'none';
+        renderPaletteSnaps([]);
         return;
       }
       currentLayerHTML = msg.html;
+      currentLayerPreviewHTML = msg.previewHtml || msg.html;
+      currentComponentFile = msg.componentFile || null;
+      currentFramework = msg.framework || (msg.jsxMode ? 'react' : 'html');
       currentAssets = msg.assets || {};
       currentFontFamilies = msg.fontFamilies || [];
       layerPreview.innerHTML = msg.jsxMode ? highlightJSX(msg.html) : highlightHTML(msg.html);
+      if (layerPreviewLabel) layerPreviewLabel.textContent = 'Generated ' + frameworkLabel(currentFramework);
       if (msg.nodeInfo) {
         layerNodeName.textContent = msg.nodeInfo.name;
         layerNodeSize.textContent = `${msg.nodeInfo.width} x ${msg.nodeInfo.height}`;
       }
+      renderPaletteSnaps(msg.snaps || []);
 
       // Handle CSS output
       if (msg.css) {
@@ -650,7 +897,7 @@ document.addEventListener("DOMContentLoaded", () => {
       if (themeForPreview) {
         openLivePreview(
           msg.nodeInfo?.name || layerNodeName.textContent || 'Preview',
-          currentLayerHTML,
+          currentLayerPreviewHTML,
           themeForPreview
         );
       }
@@ -663,6 +910,113 @@ document.addEventListener("DOMContentLoaded", () => {
       }
       renderLintResults(msg.warnings);
 
+    } else if (msg.type === 'scan-progress') {
+      const progressText = `Scanning layers... ${Number(msg.scanned).toLocaleString()} (${msg.scope})`;
+      if (msg.purpose === 'tokenize') {
+        tokenizeText.textContent = Number(msg.scanned).toLocaleString() + ' layers...';
+      } else if (msg.purpose === 'lint') {
+        const lintText = lintLoading.querySelector('.loading-text');
+        if (lintText) lintText.textContent = progressText;
+      } else {
+        const loadingText = content.querySelector('.loading-text');
+        if (loadingText) loadingText.textContent = progressText;
+        // Offer a real cancel once the scan is long enough to report progress
+        if (!document.getElementById('scan-stop-btn')) {
+          const loading = content.querySelector('.loading');
+          if (loading) {
+            const stopBtn = document.createElement('button');
+            stopBtn.className = 'lint-stop-btn';
+            stopBtn.id = 'scan-stop-btn';
+            stopBtn.textContent = 'Stop';
+            stopBtn.addEventListener('click', () => {
+              stopBtn.disabled = true;
+              parent.postMessage({ pluginMessage: { type: 'cancel-scan' } }, '*');
+            });
+            loading.appendChild(stopBtn);
+          }
+        }
+      }
+
+    } else if (msg.type === 'tokenize-created') {
+      const b = msg.bindable;
+      const total = b.fills + b.paddings + b.radii;
+      tokenizeMessage.innerHTML =
+        `<strong>${escapeHtml(msg.collection)}</strong> collection: ${msg.created} variables created, ${msg.updated} updated.<br>` +
+        (total > 0
+          ? `Bind ${b.fills} fills/strokes, ${b.paddings} paddings/gaps and ${b.radii} radii that use these raw values?`
+          : 'No raw fills, paddings or radii match these variables.');
+      tokenizeBindBtn.style.display = total > 0 ? '' : 'none';
+      tokenizeSkipBtn.textContent = total > 0 ? 'Skip' : 'Done';
+      tokenizePanel.style.display = 'block';
+      tokenizeText.textContent = 'Tokenize';
+      tokenizeBtn.classList.remove('btn-loading');
+
+    } else if (msg.type === 'tokenize-bound') {
+      resetTokenize();
+      if (msg.cancelled) showToast('Binding stopped');
+
+    } else if (msg.type === 'tokenize-cancelled') {
+      resetTokenize();
+      showToast('Tokenize cancelled');
+
+    } else if (msg.type === 'scan-empty-selection') {
+      // Scan Scope is "Selection only" but nothing is selected, so nothing was scanned
+      const notice = 'Nothing is selected. Select layers, or set Options → Scan Scope to Current page.';
+      if (msg.purpose === 'tokenize') {
+        resetTokenize();
+        showToast(notice);
+      } else if (msg.purpose === 'lint') {
+        lintLoading.style.display = 'none';
+        lintAborted = false;
+        lintResults.innerHTML = `
+          <div class="empty">
+            <h3>Nothing selected</h3>
+            <p>${escapeHtml(notice)}</p>
+          </div>
+        `;
+      } else {
+        content.innerHTML = `
+          <div class="empty">
+            <h3>Nothing selected</h3>
+            <p>${escapeHtml(notice)}</p>
+            <button class="btn-retry" id="retry-btn">Scan Again</button>
+          </div>
+        `;
+        const retryBtn = document.getElementById('retry-btn');
+        if (retryBtn) {
+          retryBtn.addEventListener('click', () => {
+            parent.postMessage({ pluginMessage: { type: 'extract' } }, '*');
+            content.innerHTML = `
+              <div class="loading">
+                <div class="loader"></div>
+                <div class="loading-text">Scanning your file...</div>
+              </div>
+            `;
+          });
+        }
+      }
+
+    } else if (msg.type === 'scan-cancelled') {
+      content.innerHTML = `
+        <div class="empty">
+          <h3>Scan cancelled</h3>
+          <p>Select fewer layers, or scan again.</p>
+          <button class="btn-retry" id="retry-btn">Scan Again</button>
+        </div>
+      `;
+      const retryScanBtn = document.getElementById('retry-btn');
+      if (retryScanBtn) {
+        retryScanBtn.addEventListener('click', () => {
+          parent.postMessage({ pluginMessage: { type: 'extract' } }, '*');
+          content.innerHTML = `
+            <div class="loading">
+              <div class="loader"></div>
+              <div class="loading-text">Scanning your file...</div>
+            </div>
+          `;
+        });
+      }
+
     } else if (msg.type === 'error') {
       content.innerHTML = `
         <div class="error">
@@ -752,13 +1106,16 @@ ${bodyHTML}
 </html>`;
   }
 
-  async function downloadZIP(html: string, css: string, assets: AssetMap, name: string) {
+  async function downloadZIP(html: string, css: string, assets: AssetMap, name: string, componentFile?: { fileName: string; code: string } | null) {
     const zip = new JSZip();
 
     // HTML with file-path asset references
     const resolvedHTML = resolveAssetPlaceholders(html, assets, 'export');
     zip.file('index.html', wrapInFullHTML(resolvedHTML, css));
 
+    // Component file next to index.html, so its ./assets/ imports resolve
+    if (componentFile) zip.file(componentFile.fileName, componentFile.code);
+
     // Assets folder
     for (const [, asset] of Object.entries(assets)) {
       const binary = atob(asset.base64);
@@ -768,9 +1125,13 @@ ${bodyHTML}
     }
 
     const blob = await zip.generateAsync({ type: 'blob' });
+    downloadBlob(blob, `${slugify(name)}.zip`);
+  }
+
+  function downloadBlob(blob: Blob, fileName: string) {
     const a = document.createElement('a');
     a.href = URL.createObjectURL(blob);
-    a.download = `${slugify(name)}.zip`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -941,10 +1302,103 @@ ${escapeStyleContent(themeCSS)}
           <path d="M5 11H3.5A1.5 1.5 0 0 1 2 9.5V3.5A1.5 1.5 0 0 1 3.5 2h6A1.5 1.5 0 0 1 11 3.5V5"/>
         </svg>
       `;
-      copyText.textContent = 'Copy CSS';
+      copyText.textContent = copyButtonLabel();
     }, 2000);
   });
 
+  // ─── Design tokens (DTCG) and tokens.ts export ───
+
+  if (copyJSONBtn) {
+    copyJSONBtn.addEventListener('click', () => {
+      if (!currentTokensJSON) return;
+      copyToClipboard(currentTokensJSON);
+      showToast('Copied design tokens JSON');
+    });
+  }
+
+  if (downloadJSONBtn) {
+    downloadJSONBtn.addEventListener('click', () => {
+      if (!currentTokensJSON) return;
+      downloadBlob(new Blob([currentTokensJSON], { type: 'application/json' }), 'design.tokens.json');
+      showToast('Downloaded design.tokens.json');
+    });
+  }
+
+  if (copyTSBtn) {
+    copyTSBtn.addEventListener('click', () => {
+      if (!currentTokensModule) return;
+      copyToClipboard(currentTokensModule);
+      showToast('Copied tokens.ts');
+    });
+  }
+
+  if (downloadTSBtn) {
+    downloadTSBtn.addEventListener('click', () => {
+      if (!currentTokensModule) return;
+      downloadBlob(new Blob([currentTokensModule], { type: 'text/plain' }), 'tokens.ts');
+      showToast('Downloaded tokens.ts');
+    });
+  }
+
+  // ─── Tokenize (write-back) ───
+
+  function resetTokenize() {
+    if (!tokenizeBtn) return;
+    tokenizeBtn.disabled = false;
+    tokenizeBtn.classList.remove('btn-loading');
+    tokenizeText.textContent = 'Tokenize';
+    tokenizePanel.style.display = 'none';
+    tokenizeBindBtn.disabled = false;
+  }
+
+  if (tokenizeBtn) {
+    tokenizeBtn.addEventListener('click', () => {
+      tokenizeBtn.disabled = true;
+      tokenizeBtn.classList.add('btn-loading');
+      tokenizeText.textContent = 'Creating...';
+      parent.postMessage({ pluginMessage: { type: 'tokenize-file' } }, '*');
+    });
+
+    tokenizeBindBtn.addEventListener('click', () => {
+      tokenizeBindBtn.disabled = true;
+      tokenizeMessage.textContent = 'Binding layers...';
+      parent.postMessage({ pluginMessage: { type: 'tokenize-bind' } }, '*');
+    });
+
+    // Variables stay in the file either way; skipping just re-reads it
+    tokenizeSkipBtn.addEventListener('click', () => {
+      resetTokenize();
+      refreshBtn.click();
+    });
+  }
+
+  // ─── Layer settings persistence ───
+
+  function frameworkLabel(framework: string): string {
+    if (framework === 'react') return 'JSX';
+    if (framework === 'vue') return 'Vue SFC';
+    if (framework === 'svelte') return 'Svelte';
+    return 'HTML';
+  }
+
+  function sendLayerSettingsUpdate() {
+    parent.postMessage({
+      pluginMessage: { type: 'update-layer-settings', generateCSS: layerCSSToggle.checked, jsxMode: layerJSXToggle.checked, vueMode: layerVueToggle.checked, svelteMode: layerSvelteToggle.checked }
+    }, '*');
+  }
+
+  layerCSSToggle.addEventListener('change', sendLayerSettingsUpdate);
+  // One framework at a time
+  const frameworkToggles = [layerJSXToggle, layerVueToggle, layerSvelteToggle];
+  frameworkToggles.forEach(toggle => {
+    toggle.addEventListener('change', () => {
+      if (toggle.checked) {
+        frameworkToggles.forEach(other => { if (other !== toggle) other.checked = false; });
+      }
+      sendLayerSettingsUpdate();
+    });
+  });
+
   // ─── Generate Layer HTML ───
 
   if (generateLayerBtn) {
@@ -956,7 +1410,9 @@ ${escapeStyleContent(themeCSS)}
 
       const generateCSS = layerCSSToggle ? layerCSSToggle.checked : false;
       const jsxMode = layerJSXToggle ? layerJSXToggle.checked : false;
-      parent.postMessage({ pluginMessage: { type: 'generate-layer', generateCSS, jsxMode } }, '*');
+      const vueMode = layerVueToggle ? layerVueToggle.checked : false;
+      const svelteMode = layerSvelteToggle ? layerSvelteToggle.checked : false;
+      parent.postMessage({ pluginMessage: { type: 'generate-layer', generateCSS, jsxMode, vueMode, svelteMode } }, '*');
     });
   }
 
@@ -969,8 +1425,7 @@ ${escapeStyleContent(themeCSS)}
         ? resolveAssetPlaceholders(currentLayerHTML, currentAssets, 'export')
         : currentLayerHTML;
       copyToClipboard(resolved);
-      const isJSX = layerJSXToggle && layerJSXToggle.checked;
-      showToast(isJSX ? 'Copied JSX to clipboard' : 'Copied HTML to clipboard');
+      showToast(`Copied ${frameworkLabel(currentFramework)} to clipboard`);
     });
   }
 
@@ -993,7 +1448,7 @@ ${escapeStyleContent(themeCSS)}
       if (themeForPreview) {
         openLivePreview(
           layerNodeName.textContent || 'Preview',
-          currentLayerHTML,
+          currentLayerPreviewHTML,
           themeForPreview
         );
       }
@@ -1008,7 +1463,7 @@ ${escapeStyleContent(themeCSS)}
       const themeCSS = currentLayerCSS || currentCSS;
       const name = layerNodeName.textContent || 'component';
       try {
-        await downloadZIP(currentLayerHTML, themeCSS, currentAssets, name);
+        await downloadZIP(currentLayerPreviewHTML, themeCSS, currentAssets, name, currentComponentFile);
         showToast('ZIP downloaded');
       } catch (e) {
         showToast('ZIP download failed');
@@ -1022,6 +1477,8 @@ ${escapeStyleContent(themeCSS)}
     runLintBtn.addEventListener('click', () => {
       lintAborted = false;
       lintLoading.style.display = 'block';
+      const lintText = lintLoading.querySelector('.loading-text');
+      if (lintText) lintText.textContent = 'Analyzing design tokens...';
       lintResults.innerHTML = '';
       parent.postMessage({ pluginMessage: { type: 'run-lint' } }, '*');
     });
@@ -1032,6 +1489,7 @@ ${escapeStyleContent(themeCSS)}
   if (lintStopBtn) {
     lintStopBtn.addEventListener('click', () => {
       lintAborted = true;
+      parent.postMessage({ pluginMessage: { type: 'cancel-scan' } }, '*');
       lintLoading.style.display = 'none';
       lintResults.innerHTML = `
         <div class="empty">